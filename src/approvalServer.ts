@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import { ClaudeModeManager } from './claudeModeManager';
+import { ApprovalDecision, ApprovalRequest, approvalSocketPath } from './hookProtocol';
+import { PathPolicies } from './pathPolicies';
+
+/**
+ * Makes the extension the approver for Claude's edits in ask mode.
+ *
+ * While the mode is `ask`, listens on the socket the PreToolUse hook
+ * connects to — one per workspace folder. Each request is shown as a
+ * native diff of the file before and after the proposed edit, with
+ * Approve / Deny / Deny with Feedback. Files under a `block` or `auto`
+ * path policy are denied or approved without asking.
+ * The decision goes back to the hook, which hands it to Claude Code.
+ * Requests are reviewed one at a time, in arrival order.
+ */
+export class ApprovalServer {
+  static readonly scheme = 'claude-approval';
+
+  private servers = new Map<string, net.Server>(); // socket path → server
+  private queue: Promise<unknown> = Promise.resolve();
+  private contents = new Map<string, string>(); // uri path → content shown in the diff
+
+  constructor(
+    context: vscode.ExtensionContext,
+    private modeManager: ClaudeModeManager,
+  ) {
+    context.subscriptions.push(
+      vscode.workspace.registerTextDocumentContentProvider(ApprovalServer.scheme, {
+        provideTextDocumentContent: (uri) => this.contents.get(uri.path) ?? '',
+      }),
+      modeManager.onModeChange(() => this.sync()),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.sync()),
+      { dispose: () => this.closeAll() },
+    );
+    this.sync();
+  }
+
+  /** Listens for every workspace folder while in ask mode, and for none otherwise */
+  private sync() {
+    const wanted = new Set(
+      this.modeManager.currentMode === 'ask'
+        ? (vscode.workspace.workspaceFolders ?? []).map(f => approvalSocketPath(f.uri.fsPath))
+        : [],
+    );
+    for (const socketPath of this.servers.keys()) {
+      if (!wanted.has(socketPath)) this.close(socketPath);
+    }
+    for (const socketPath of wanted) {
+      if (!this.servers.has(socketPath)) this.listen(socketPath);
+    }
+  }
+
+  private listen(socketPath: string) {
+    // A stale socket file from a crashed window would make listen() fail
+    if (process.platform !== 'win32' && fs.existsSync(socketPath)) fs.unlinkSync(socketPath);
+
+    const server = net.createServer((socket) => this.onConnection(socket));
+    server.on('error', (e) => console.warn('[ClaudeDiff] Approval server error:', e));
+    server.listen(socketPath);
+    this.servers.set(socketPath, server);
+    console.log(`[ClaudeDiff] Approval server listening on ${socketPath}`);
+  }
+
+  private close(socketPath: string) {
+    this.servers.get(socketPath)?.close();
+    this.servers.delete(socketPath);
+    if (process.platform !== 'win32' && fs.existsSync(socketPath)) fs.unlinkSync(socketPath);
+  }
+
+  private closeAll() {
+    for (const socketPath of [...this.servers.keys()]) this.close(socketPath);
+  }
+
+  private onConnection(socket: net.Socket) {
+    let buffer = '';
+    let closed = false;
+    socket.setEncoding('utf8');
+    socket.on('close', () => { closed = true; });
+    socket.on('error', () => { closed = true; });
+    socket.on('data', (chunk) => {
+      buffer += chunk;
+      const newline = buffer.indexOf('\n');
+      if (newline < 0) return;
+
+      let request: ApprovalRequest;
+      try {
+        request = JSON.parse(buffer.slice(0, newline));
+      } catch {
+        socket.end(JSON.stringify({ decision: 'ask' } as ApprovalDecision) + '\n');
+        return;
+      }
+
+      const next = this.queue.then(() => closed ? undefined : this.review(request));
+      this.queue = next.catch(() => undefined);
+      next.then(
+        (decision) => { if (decision && !closed) socket.end(JSON.stringify(decision) + '\n'); },
+        () => { if (!closed) socket.end(JSON.stringify({ decision: 'ask' } as ApprovalDecision) + '\n'); },
+      );
+    });
+  }
+
+  private async review(request: ApprovalRequest): Promise<ApprovalDecision> {
+    // Path policies decide without asking
+    const root = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(request.file))?.uri.fsPath;
+    const rule = root ? new PathPolicies(root).match(path.relative(root, request.file)) : undefined;
+    if (rule?.policy === 'block') {
+      return { decision: 'deny', reason: `${vscode.workspace.asRelativePath(request.file)} is blocked by the path policy "${rule.pattern}" — do not edit it` };
+    }
+    if (rule?.policy === 'auto') return { decision: 'allow' };
+
+    const before = fs.existsSync(request.file) ? fs.readFileSync(request.file, 'utf8') : '';
+    const after = proposedContent(request.tool, request.toolInput, before);
+    // Can't preview this edit — fall back to Claude Code's own prompt
+    if (after === undefined) return { decision: 'ask' };
+
+    const rel = vscode.workspace.asRelativePath(request.file);
+    const key = `/${request.id}/${path.basename(request.file)}`;
+    this.contents.set(`${key}.before`, before);
+    this.contents.set(`${key}.after`, after);
+
+    try {
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        vscode.Uri.from({ scheme: ApprovalServer.scheme, path: `${key}.before` }),
+        vscode.Uri.from({ scheme: ApprovalServer.scheme, path: `${key}.after` }),
+        `Claude wants to ${before === '' ? 'create' : 'edit'}: ${rel}`,
+        { preview: true },
+      );
+
+      const choice = await vscode.window.showInformationMessage(
+        `Claude wants to ${before === '' ? 'create' : 'edit'} ${rel} (${request.tool})`,
+        'Approve',
+        'Deny',
+        'Deny with Feedback…',
+      );
+
+      if (choice === 'Approve') return { decision: 'allow' };
+      if (choice === 'Deny with Feedback…') {
+        const feedback = await vscode.window.showInputBox({
+          title: `Why deny the edit to ${rel}?`,
+          placeHolder: 'Sent back to Claude',
+        });
+        return { decision: 'deny', reason: feedback || 'Denied by the user in VS Code' };
+      }
+      return { decision: 'deny', reason: 'Denied by the user in VS Code' };
+    } finally {
+      this.contents.delete(`${key}.before`);
+      this.contents.delete(`${key}.after`);
+    }
+  }
+}
+
+/**
+ * Applies an Edit/Write/MultiEdit tool input to the current content.
+ * Returns undefined when the edit cannot be previewed (unknown tool, or an
+ * old_string that does not occur — Claude's tool call would fail too).
+ */
+function proposedContent(tool: string, input: Record<string, unknown>, current: string): string | undefined {
+  type Edit = { old_string?: string; new_string?: string; replace_all?: boolean };
+
+  const applyEdit = (content: string | undefined, edit: Edit) => {
+    if (content === undefined || typeof edit.old_string !== 'string' || typeof edit.new_string !== 'string') {
+      return undefined;
+    }
+    if (!content.includes(edit.old_string)) return undefined;
+    const replacement = edit.new_string;
+    return edit.replace_all
+      ? content.split(edit.old_string).join(replacement)
+      : content.replace(edit.old_string, () => replacement);
+  };
+
+  switch (tool) {
+    case 'Write':
+      return typeof input.content === 'string' ? input.content : undefined;
+    case 'Edit':
+      return applyEdit(current, input as Edit);
+    case 'MultiEdit':
+      return Array.isArray(input.edits)
+        ? (input.edits as Edit[]).reduce<string | undefined>(applyEdit, current)
+        : undefined;
+    default:
+      return undefined;
+  }
+}
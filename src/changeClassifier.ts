@@ -0,0 +1,259 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import ignore, { Ignore } from 'ignore';
+import { FileDiff } from './diffManager';
+
+export type ChangeClass = 'lockfile' | 'generated' | 'whitespace' | 'comments' | 'imports';
+
+// Package manager lockfiles, by file name
+const LOCKFILES = new Set([
+  'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'bun.lock',
+  'Cargo.lock', 'Gemfile.lock', 'composer.lock', 'poetry.lock', 'Pipfile.lock', 'uv.lock',
+  'go.sum', 'flake.lock', 'mix.lock', 'pubspec.lock', 'Podfile.lock', 'packages.lock.json',
+]);
+
+// Markers generators put at the top of their output
+const GENERATED_MARKER = /@generated\b|do not edit|auto-?generated|generated by\b/i;
+const MARKER_LINES = 5;
+
+// Languages where indentation is syntax — whitespace at the start of a line counts there
+const INDENT_SENSITIVE = new Set(['py', 'pyi', 'yaml', 'yml', 'coffee', 'pug', 'haml', 'sass', 'styl', 'nim', 'fs', 'mk']);
+
+// Languages where whitespace inside a line only separates tokens, so `f(a,b)` and
+// `f( a, b )` are the same. Elsewhere (shell, Ruby, CSS values…) a run of
+// whitespace still counts as one space.
+const FREE_SPACING = new Set([
+  'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'mts', 'cts', 'java', 'kt', 'kts', 'scala', 'groovy', 'c', 'h', 'cc',
+  'cpp', 'hpp', 'cxx', 'cs', 'go', 'rs', 'dart', 'php', 'json', 'jsonc', 'proto', 'py', 'pyi',
+]);
+
+// Languages with /regex/ literals and with triple-quoted strings, which are kept as a whole
+const REGEX_LITERALS = new Set(['js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'mts', 'cts']);
+const TRIPLE_QUOTES = new Set(['py', 'pyi', 'toml', 'kt', 'kts', 'scala', 'groovy', 'java', 'swift', 'dart']);
+
+// A `/` starts a regex rather than a division after one of these, or at the start of a line
+const BEFORE_REGEX = /(^|[(,=:[!&|?{};+\-*%<>~^\n]|\breturn|\btypeof)$/;
+
+interface CommentSyntax {
+  line?: string;
+  block?: [string, string];
+}
+
+// Comment syntax by file extension
+const C_STYLE = new Set([
+  'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'mts', 'cts', 'java', 'kt', 'kts', 'scala', 'groovy', 'c', 'h', 'cc',
+  'cpp', 'hpp', 'cxx', 'cs', 'go', 'rs', 'swift', 'dart', 'php', 'scss', 'less', 'jsonc', 'proto',
+]);
+const HASH_STYLE = new Set(['py', 'pyi', 'rb', 'sh', 'bash', 'zsh', 'yaml', 'yml', 'toml', 'r', 'pl', 'conf', 'ini', 'mk', 'tf', 'cmake']);
+const DASH_STYLE = new Set(['lua', 'hs', 'elm']);
+
+// Comments that tools read — changing one is not a comment-only change
+const DIRECTIVE = /^(#!|\/\/\/|\/\/go:|\/\/\s*\+build)|@ts-|eslint|prettier-ignore|istanbul|c8 ignore|noqa|type:\s*ignore|pylint:|mypy:|-\*-|coding[:=]|pragma|rubocop:|shellcheck|frozen_string_literal|NOLINT|clang-format|@license|@preserve/i;
+
+// A line that imports something, in the common languages
+const IMPORT_LINE = /^\s*(import\b|from\s+\S+\s+import\b|export\s+(\*|\{[^}]*\})\s+from\b|#include\b|using\s+[\w.]+\s*;|use\s+[\w:{}, ]+;|(const|let|var)\s+.+=\s*require\(|require\s*\(?\s*['"])/;
+
+/**
+ * Tags a change nobody needs to read line by line:
+ *
+ *   lockfile   → a package manager lockfile
+ *   generated  → matches `claudediff.generatedFiles`, or said it was generated in its first lines
+ *   whitespace → only whitespace within lines, or blank lines, changed
+ *   comments   → only lines holding nothing but a comment changed
+ *   imports    → only the order of import lines changed
+ *
+ * The first that applies wins, in that order. New and deleted files can only
+ * be lockfiles or generated; a move with no content changes is not tagged.
+ * Only the original content can mark a file as generated — otherwise adding
+ * the marker would be enough to get any change accepted.
+ *
+ * Each class has to be safe to accept unread, so when in doubt a change is
+ * not tagged: line breaks always count (a shell command or a statement
+ * ending at a line break is code), string and regex literals are compared
+ * as they are, and only lines that hold nothing but a comment are dropped
+ * as comments.
+ * Categories listed in `claudediff.autoAccept` are accepted without review.
+ * Settings are read when the object is created.
+ */
+export class ChangeClassifier {
+  private generated: Ignore;
+  private autoAccepted: Set<string>;
+
+  constructor(root: string) {
+    const config = vscode.workspace.getConfiguration('claudediff', vscode.Uri.file(root));
+    this.generated = ignore().add(config.get<string[]>('generatedFiles', []));
+    this.autoAccepted = new Set(config.get<string[]>('autoAccept', []));
+  }
+
+  /** True if changes of `cls` are accepted without review */
+  autoAccepts(cls: ChangeClass | undefined): boolean {
+    return !!cls && this.autoAccepted.has(cls);
+  }
+
+  classify(diff: FileDiff): ChangeClass | undefined {
+    if (LOCKFILES.has(path.basename(diff.relativePath))) return 'lockfile';
+    if (this.generated.ignores(diff.relativePath.split(path.sep).join('/'))) return 'generated';
+    if (diff.binary) return undefined;
+    if (!diff.isNew && hasGeneratedMarker(diff.before)) return 'generated';
+    if (diff.isNew || diff.isDeleted || diff.unknownBase || diff.before === diff.after) return undefined;
+
+    const ext = extensionOf(diff.relativePath);
+    if (normalize(diff.before, ext) === normalize(diff.after, ext)) return 'whitespace';
+    const syntax = commentSyntax(ext);
+    if (syntax && normalize(diff.before, ext, syntax) === normalize(diff.after, ext, syntax)) return 'comments';
+    if (onlyImportsMoved(diff)) return 'imports';
+    return undefined;
+  }
+}
+
+function hasGeneratedMarker(text: string): boolean {
+  return text.split('\n', MARKER_LINES).some(line => GENERATED_MARKER.test(line));
+}
+
+function extensionOf(relativePath: string): string {
+  const name = path.basename(relativePath).toLowerCase();
+  if (name === 'makefile' || name === 'gnumakefile') return 'mk';
+  if (name === 'dockerfile') return 'sh';
+  return path.extname(name).slice(1);
+}
+
+function commentSyntax(ext: string): CommentSyntax | undefined {
+  if (C_STYLE.has(ext)) return { line: '//', block: ['/*', '*/'] };
+  if (HASH_STYLE.has(ext)) return { line: '#' };
+  if (DASH_STYLE.has(ext)) return { line: '--' };
+  if (ext === 'sql') return { line: '--', block: ['/*', '*/'] };
+  // No line comments: `//` in an unquoted url() is not one
+  if (ext === 'css') return { block: ['/*', '*/'] };
+  return undefined;
+}
+
+/**
+ * A form of `text` that two versions share when they differ only in
+ * whitespace — and in comment lines, when their `syntax` is given. Blank
+ * lines and whitespace at the ends of lines are dropped, and whitespace
+ * inside a line as far as the language allows (see FREE_SPACING); line
+ * breaks, indentation where it is syntax, and literals are kept.
+ */
+function normalize(text: string, ext: string, syntax?: CommentSyntax): string {
+  const indented = INDENT_SENSITIVE.has(ext);
+  let out = '';
+  let space = false;     // whitespace skipped since the last character kept on this line
+  let lineStart = 0;     // index where the current line begins
+  let atLineStart = true;
+  let freeSpacing = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '\n') {
+      lineStart = i + 1;
+      atLineStart = true;
+      space = false;
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      space = true;
+      continue;
+    }
+    if (atLineStart && syntax) {
+      const end = commentLineEnd(text, i, syntax);
+      if (end !== undefined) {
+        i = end - 1;
+        continue;
+      }
+    }
+
+    if (atLineStart) {
+      out += '\n' + (indented ? text.slice(lineStart, i) : '');
+      // A preprocessor line is whitespace-sensitive even in C: `#define F (x)` is not `#define F(x)`
+      freeSpacing = FREE_SPACING.has(ext) && ch !== '#';
+    } else if (space && (!freeSpacing || joins(out[out.length - 1], ch))) {
+      out += ' ';
+    }
+    space = false;
+    atLineStart = false;
+
+    const end = literalEnd(text, i, ext, out);
+    out += text.slice(i, end);
+    i = end - 1;
+  }
+  return out;
+}
+
+function joins(prev: string | undefined, next: string): boolean {
+  if (prev === undefined) return false;
+  return (/\w/.test(prev) && /\w/.test(next)) || (prev === next && /[^\w\s]/.test(prev));
+}
+
+/**
+ * Where the string or regex literal starting at `i` ends, or `i + 1` if
+ * none starts there. Quotes other than backticks and triple quotes end at
+ * the line break, so a stray apostrophe (a Rust lifetime, a char literal)
+ * cannot turn the rest of the file into a "string".
+ */
+function literalEnd(text: string, i: number, ext: string, before: string): number {
+  const ch = text[i];
+  const triple = text.slice(i, i + 3);
+  if (TRIPLE_QUOTES.has(ext) && (triple === '"""' || triple === "'''")) {
+    const end = text.indexOf(triple, i + 3);
+    return end < 0 ? text.length : end + 3;
+  }
+  if (ch === '"' || ch === "'" || ch === '`') {
+    for (let j = i + 1; j < text.length; j++) {
+      if (text[j] === '\\') j++;
+      else if (text[j] === ch) return j + 1;
+      else if (text[j] === '\n' && ch !== '`') return j;
+    }
+    return text.length;
+  }
+  if (ch === '/' && REGEX_LITERALS.has(ext) && !/[/*]/.test(text[i + 1] ?? '') && BEFORE_REGEX.test(before.trimEnd())) {
+    let inClass = false;
+    for (let j = i + 1; j < text.length && text[j] !== '\n'; j++) {
+      if (text[j] === '\\') j++;
+      else if (text[j] === '[') inClass = true;
+      else if (text[j] === ']') inClass = false;
+      else if (text[j] === '/' && !inClass) return j + 1;
+    }
+  }
+  return i + 1;
+}
+
+/**
+ * If the line whose first character is at `i` holds only a comment, where
+ * that comment ends (at a line break). A block comment counts only if
+ * nothing follows it on its last line, and directives tools read (shebangs,
+ * `@ts-ignore`, `noqa`, build tags…) are never dropped.
+ */
+function commentLineEnd(text: string, i: number, syntax: CommentSyntax): number | undefined {
+  const lineEnd = (from: number) => {
+    const end = text.indexOf('\n', from);
+    return end < 0 ? text.length : end;
+  };
+  if (syntax.line && text.startsWith(syntax.line, i)) {
+    const end = lineEnd(i);
+    return DIRECTIVE.test(text.slice(i, end)) ? undefined : end;
+  }
+  if (syntax.block && text.startsWith(syntax.block[0], i)) {
+    const close = text.indexOf(syntax.block[1], i + syntax.block[0].length);
+    if (close < 0) return undefined;
+    const end = lineEnd(close);
+    if (text.slice(close + syntax.block[1].length, end).trim() !== '' || DIRECTIVE.test(text.slice(i, close))) return undefined;
+    return end;
+  }
+  return undefined;
+}
+
+/** Every changed line is an import, and the same imports were removed as added */
+function onlyImportsMoved(diff: FileDiff): boolean {
+  const removed: string[] = [];
+  const added: string[] = [];
+  for (const hunk of diff.hunks) {
+    for (const line of hunk.lines) {
+      if (line.startsWith('-')) removed.push(line.slice(1).trim());
+      else if (line.startsWith('+')) added.push(line.slice(1).trim());
+    }
+  }
+  const changed = [...removed, ...added].filter(l => l !== '');
+  if (changed.length === 0 || !changed.every(l => IMPORT_LINE.test(l))) return false;
+  const sorted = (lines: string[]) => lines.filter(l => l !== '').sort().join('\n');
+  return sorted(removed) === sorted(added);
+}
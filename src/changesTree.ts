@@ -0,0 +1,158 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DiffManager, DiffStatus, FileDiff } from './diffManager';
+
+export type ChangeNode =
+  | { kind: 'root'; root: string; name: string }   // workspace folder, multi-root only
+  | { kind: 'folder'; root: string; dir: string }  // `dir` relative to `root`, '/'-separated
+  | { kind: 'file'; diff: FileDiff };
+
+const statusIcons: Record<DiffStatus, vscode.ThemeIcon> = {
+  pending: new vscode.ThemeIcon('circle-outline'),
+  accepted: new vscode.ThemeIcon('check', new vscode.ThemeColor('gitDecoration.addedResourceForeground')),
+  rejected: new vscode.ThemeIcon('close', new vscode.ThemeColor('gitDecoration.deletedResourceForeground')),
+};
+
+/**
+ * The "Changes" view in the Claude Diff activity-bar container: the current
+ * diffs as a folder tree with +/- counts and a status per file. Accepting or
+ * rejecting a folder resolves every pending file under it.
+ *
+ * Rebuilt from DiffManager on every onDidChangeDiffs, so it never needs to
+ * be refreshed by hand.
+ */
+export class ChangesTree implements vscode.TreeDataProvider<ChangeNode> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private view: vscode.TreeView<ChangeNode>;
+
+  constructor(
+    context: vscode.ExtensionContext,
+    private diffManager: DiffManager,
+  ) {
+    this.view = vscode.window.createTreeView('claudediff.changes', {
+      treeDataProvider: this,
+      canSelectMany: true,
+      showCollapseAll: true,
+    });
+    context.subscriptions.push(
+      this.view,
+      diffManager.onDidChangeDiffs(() => this.onDiffsChanged()),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this._onDidChangeTreeData.fire()),
+    );
+    this.onDiffsChanged();
+  }
+
+  private onDiffsChanged() {
+    const pending = this.diffManager.getPendingDiffs().length;
+    this.view.badge = pending > 0
+      ? { value: pending, tooltip: `${pending} pending Claude change${pending === 1 ? '' : 's'}` }
+      : undefined;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /** Every file at or under the given nodes, without duplicates */
+  filesUnder(nodes: ChangeNode[]): FileDiff[] {
+    const files = new Map<string, FileDiff>();
+    for (const node of nodes) {
+      for (const diff of this.diffManager.getAllDiffs()) {
+        if (contains(node, diff)) files.set(diff.filePath, diff);
+      }
+    }
+    return [...files.values()];
+  }
+
+  getChildren(node?: ChangeNode): ChangeNode[] {
+    const diffs = this.diffManager.getAllDiffs();
+    const folders = vscode.workspace.workspaceFolders ?? [];
+
+    if (!node) {
+      if (folders.length > 1) {
+        return folders
+          .filter(f => diffs.some(d => d.root === f.uri.fsPath))
+          .map(f => ({ kind: 'root', root: f.uri.fsPath, name: f.name }));
+      }
+      return childrenOf(diffs, folders[0]?.uri.fsPath ?? diffs[0]?.root ?? '', '');
+    }
+    if (node.kind === 'root') return childrenOf(diffs, node.root, '');
+    if (node.kind === 'folder') return childrenOf(diffs, node.root, node.dir);
+    return [];
+  }
+
+  getTreeItem(node: ChangeNode): vscode.TreeItem {
+    if (node.kind === 'file') return fileItem(node.diff);
+
+    const under = this.filesUnder([node]);
+    const pending = under.filter(d => d.status === 'pending').length;
+    const item = node.kind === 'root'
+      ? new vscode.TreeItem(node.name, vscode.TreeItemCollapsibleState.Expanded)
+      : new vscode.TreeItem(vscode.Uri.file(path.join(node.root, node.dir)), vscode.TreeItemCollapsibleState.Expanded);
+    item.id = node.kind === 'root' ? `root:${node.root}` : `folder:${path.join(node.root, node.dir)}`;
+    item.iconPath = node.kind === 'root' ? new vscode.ThemeIcon('root-folder') : vscode.ThemeIcon.Folder;
+    item.description = pending > 0 ? `${pending} pending` : `${under.length} resolved`;
+    item.contextValue = pending > 0 ? 'folder-pending' : 'folder-resolved';
+    return item;
+  }
+}
+
+/** Immediate subfolders, then files, of `dir` in `root` */
+function childrenOf(diffs: FileDiff[], root: string, dir: string): ChangeNode[] {
+  const prefix = dir ? dir + '/' : '';
+  const subdirs = new Set<string>();
+  const files: ChangeNode[] = [];
+
+  for (const diff of diffs) {
+    const rel = toPosix(diff.relativePath);
+    if (diff.root !== root || !rel.startsWith(prefix)) continue;
+    const rest = rel.slice(prefix.length);
+    const slash = rest.indexOf('/');
+    if (slash < 0) files.push({ kind: 'file', diff });
+    else subdirs.add(prefix + rest.slice(0, slash));
+  }
+
+  return [
+    ...[...subdirs].sort().map((d): ChangeNode => ({ kind: 'folder', root, dir: d })),
+    ...files.sort((a, b) => label(a).localeCompare(label(b))),
+  ];
+}
+
+function contains(node: ChangeNode, diff: FileDiff): boolean {
+  if (node.kind === 'file') return node.diff.filePath === diff.filePath;
+  if (diff.root !== node.root) return false;
+  return node.kind === 'root' || toPosix(diff.relativePath).startsWith(node.dir + '/');
+}
+
+function fileItem(diff: FileDiff): vscode.TreeItem {
+  let added = 0;
+  let removed = 0;
+  for (const hunk of diff.hunks) {
+    added += hunk.lines.filter(l => l.startsWith('+')).length;
+    removed += hunk.lines.filter(l => l.startsWith('-')).length;
+  }
+
+  const item = new vscode.TreeItem(vscode.Uri.file(diff.filePath));
+  item.id = `file:${diff.filePath}`;
+  item.iconPath = statusIcons[diff.status];
+  const counts = diff.binary ? 'binary' : `+${added} −${removed}`;
+  item.description = diff.oldRelativePath ? `← ${diff.oldRelativePath} · ${counts} · ${diff.status}` : `${counts} · ${diff.status}`;
+  item.tooltip = diff.oldRelativePath
+    ? `${diff.oldRelativePath} → ${diff.relativePath}\nMoved by Claude · ${diff.status}`
+    : `${diff.relativePath}\n${diff.isNew ? 'Added' : diff.isDeleted ? 'Deleted' : 'Modified'} by Claude · ${diff.status}`;
+  item.contextValue = `file-${diff.status}`;
+  // A deleted file has nothing to open until its deletion is rejected — review it in the panel.
+  // A rejected move is back at its old path.
+  if (!diff.isDeleted || diff.status === 'rejected') {
+    const at = diff.oldPath && diff.status === 'rejected' ? diff.oldPath : diff.filePath;
+    item.command = { title: 'Open', command: 'vscode.open', arguments: [vscode.Uri.file(at)] };
+  }
+  return item;
+}
+
+function label(node: ChangeNode): string {
+  return node.kind === 'file' ? path.basename(node.diff.filePath) : '';
+}
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join('/');
+}
@@ -1,30 +1,70 @@
 import * as vscode from 'vscode';
-import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
+import { readSettings, settingsPath, SettingsScope, updateSettings } from './claudeSettings';
 
 export type ClaudeMode = 'auto' | 'propose' | 'ask';
 
 /**
- * Manages Claude Code's edit mode and syncs it with
- * the ~/.claude/settings.json that Claude Code reads.
+ * Manages Claude Code's edit mode and syncs it with the Claude Code
+ * settings file picked by `claudediff.settingsScope`: the user's
+ * ~/.claude/settings.json, or each workspace folder's .claude/settings.json
+ * or .claude/settings.local.json. The mode is remembered globally for the
+ * user scope and per workspace otherwise.
+ *
+ * The settings file is the source of truth: a mode found there wins over the
+ * remembered one, and edits made to it outside the extension are picked up.
  *
  * Modes:
  *  auto    → Claude edits files immediately (default Claude Code behavior)
  *  propose → Claude writes changes to a staging area; extension shows diff before applying
  *  ask     → Before ANY edit, Claude is intercepted; user approves each file
+ *            (via the PreToolUse hook and ApprovalServer)
  */
 export class ClaudeModeManager {
   private _mode: ClaudeMode;
   private _onModeChange = new vscode.EventEmitter<ClaudeMode>();
   readonly onModeChange = this._onModeChange.event;
 
-  private claudeSettingsPath: string;
+  private watchers: vscode.FileSystemWatcher[] = [];
+  private warned = new Set<string>(); // settings files already reported as unreadable
 
   constructor(private context: vscode.ExtensionContext) {
-    this.claudeSettingsPath = path.join(os.homedir(), '.claude', 'settings.json');
-    this._mode = (context.globalState.get<ClaudeMode>('claudeMode')) || 'propose';
-    this.syncToClaudeSettings();
+    this._mode = this.state.get<ClaudeMode>('claudeMode') || 'propose';
+    this.loadFromSettings();
+    this.watchSettings();
+
+    context.subscriptions.push(
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration('claudediff.settingsScope')) this.onScopeChanged();
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.onScopeChanged()),
+      { dispose: () => this.watchers.forEach(w => w.dispose()) },
+    );
+  }
+
+  get scope(): SettingsScope {
+    return vscode.workspace.getConfiguration('claudediff').get<SettingsScope>('settingsScope', 'user');
+  }
+
+  /** The settings files the mode is synced to — one per workspace folder unless the scope is user */
+  get settingsFiles(): string[] {
+    const scope = this.scope;
+    if (scope === 'user') return [settingsPath('user')];
+    return (vscode.workspace.workspaceFolders ?? []).map(f => settingsPath(scope, f.uri.fsPath));
+  }
+
+  /** The synced settings file as shown to the user */
+  get settingsLabel(): string {
+    const labels: Record<SettingsScope, string> = {
+      user: '~/.claude/settings.json',
+      project: '.claude/settings.json',
+      local: '.claude/settings.local.json',
+    };
+    return labels[this.scope];
+  }
+
+  private get state(): vscode.Memento {
+    return this.scope === 'user' ? this.context.globalState : this.context.workspaceState;
   }
 
   get currentMode(): ClaudeMode {
@@ -33,7 +73,7 @@ export class ClaudeModeManager {
 
   async setMode(mode: ClaudeMode) {
     this._mode = mode;
-    await this.context.globalState.update('claudeMode', mode);
+    await this.state.update('claudeMode', mode);
     this.syncToClaudeSettings();
     this._onModeChange.fire(mode);
   }
@@ -59,7 +99,7 @@ export class ClaudeModeManager {
 
     const picked = await vscode.window.showQuickPick(items, {
       title: 'Claude Code Edit Mode',
-      placeHolder: `Current: ${this._mode}`,
+      placeHolder: `Current: ${this._mode} · synced to ${this.settingsLabel}`,
     });
 
     if (picked) {
@@ -69,9 +109,62 @@ export class ClaudeModeManager {
     return undefined;
   }
 
+  /** A new scope or set of folders — follow the mode in the new settings files and watch them instead */
+  private onScopeChanged() {
+    this._mode = this.state.get<ClaudeMode>('claudeMode') || this._mode;
+    this.loadFromSettings();
+    this.watchSettings();
+    this._onModeChange.fire(this._mode);
+  }
+
+  /** Takes the mode from the first settings file that sets one, then writes it to any that differ */
+  private loadFromSettings() {
+    const found = this.settingsFiles.map(file => this.readMode(file)).find(mode => mode);
+    if (found && found !== this._mode) {
+      this._mode = found;
+      this.state.update('claudeMode', found);
+    }
+    this.syncToClaudeSettings();
+  }
+
+  private watchSettings() {
+    this.watchers.forEach(w => w.dispose());
+    this.watchers = this.settingsFiles.map((file) => {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(vscode.Uri.file(path.dirname(file)), path.basename(file)),
+      );
+      watcher.onDidChange(() => this.onSettingsEdited(file));
+      watcher.onDidCreate(() => this.onSettingsEdited(file));
+      return watcher;
+    });
+  }
+
+  /** The file changed — by the user, Claude Code, or our own sync. Only a different mode matters. */
+  private onSettingsEdited(file: string) {
+    const mode = this.readMode(file);
+    if (!mode || mode === this._mode) return;
+    console.log(`[ClaudeDiff] ${file} switched the mode to ${mode}`);
+    this._mode = mode;
+    this.state.update('claudeMode', mode);
+    this.syncToClaudeSettings(); // the other folders' files, in project and local scope
+    this._onModeChange.fire(mode);
+  }
+
+  private readMode(file: string): ClaudeMode | undefined {
+    try {
+      const settings = readSettings(file);
+      this.warned.delete(file);
+      return settings && modeFromSettings(settings);
+    } catch (e) {
+      this.warn(file, e);
+      return undefined;
+    }
+  }
+
   /**
    * Syncs mode into Claude Code's settings file so Claude Code
-   * respects the chosen behavior natively.
+   * respects the chosen behavior natively. Files already in line are not
+   * touched, and files that do not parse are never overwritten.
    *
    * Claude Code settings reference:
    *   autoApproveEdits: true  → auto mode
@@ -79,33 +172,44 @@ export class ClaudeModeManager {
    *   autoApproveEdits: false → ask mode
    */
   private syncToClaudeSettings() {
-    try {
-      const dir = path.dirname(this.claudeSettingsPath);
-      if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-
-      let settings: Record<string, unknown> = {};
-      if (fs.existsSync(this.claudeSettingsPath)) {
-        settings = JSON.parse(fs.readFileSync(this.claudeSettingsPath, 'utf8'));
+    for (const file of this.settingsFiles) {
+      try {
+        if (updateSettings(file, settingsForMode(this._mode))) {
+          console.log(`[ClaudeDiff] Synced ${this._mode} mode to ${file}`);
+        }
+      } catch (e) {
+        this.warn(file, e);
       }
+    }
+  }
 
-      switch (this._mode) {
-        case 'auto':
-          settings.autoApproveEdits = true;
-          settings.dryRun = false;
-          break;
-        case 'propose':
-          settings.autoApproveEdits = false;
-          settings.dryRun = true;         // Claude Code dry-run: writes to .claude/proposed/
-          break;
-        case 'ask':
-          settings.autoApproveEdits = false;
-          settings.dryRun = false;
-          break;
-      }
+  /** Reports an unreadable settings file once, until it parses again */
+  private warn(file: string, e: unknown) {
+    console.warn('[ClaudeDiff] Could not sync to Claude settings:', e);
+    if (this.warned.has(file)) return;
+    this.warned.add(file);
+    const message = e instanceof Error ? e.message : String(e);
+    vscode.window.showWarningMessage(`Claude Diff: ${message} — the edit mode is not synced until it is fixed.`, 'Open File')
+      .then((choice) => {
+        if (choice) vscode.commands.executeCommand('vscode.open', vscode.Uri.file(file));
+      });
+  }
+}
 
-      fs.writeFileSync(this.claudeSettingsPath, JSON.stringify(settings, null, 2));
-    } catch (e) {
-      console.warn('Could not sync to Claude settings:', e);
-    }
+function settingsForMode(mode: ClaudeMode): Record<string, boolean> {
+  switch (mode) {
+    case 'auto':
+      return { autoApproveEdits: true, dryRun: false };
+    case 'propose':
+      return { autoApproveEdits: false, dryRun: true }; // Claude Code dry-run: writes to .claude/proposed/
+    case 'ask':
+      return { autoApproveEdits: false, dryRun: false };
   }
 }
+
+function modeFromSettings(settings: Record<string, unknown>): ClaudeMode | undefined {
+  if (settings.autoApproveEdits === true) return 'auto';
+  if (settings.dryRun === true) return 'propose';
+  if (settings.autoApproveEdits === false) return 'ask';
+  return undefined;
+}
@@ -0,0 +1,154 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DiffManager, DiffStatus, FileDiff } from './diffManager';
+
+interface FolderScm {
+  sourceControl: vscode.SourceControl;
+  groups: Record<DiffStatus, vscode.SourceControlResourceGroup>;
+}
+
+/**
+ * Shows Claude's changes in the Source Control view, next to git.
+ *
+ * Each workspace folder gets a "Claude" source control with Pending,
+ * Accepted and Rejected groups built from DiffManager. Files carry A/M/D
+ * decorations, pending ones have inline accept/reject actions (see the
+ * scm/* menus in package.json), and the editor gutter's quick diff shows
+ * the change against the content from before the run.
+ */
+export class ClaudeScm implements vscode.FileDecorationProvider {
+  static readonly scheme = 'claude-scm';
+
+  private folders = new Map<string, FolderScm>(); // workspace folder → its source control
+
+  private _onDidChangeFileDecorations = new vscode.EventEmitter<vscode.Uri | vscode.Uri[] | undefined>();
+  readonly onDidChangeFileDecorations = this._onDidChangeFileDecorations.event;
+
+  constructor(
+    context: vscode.ExtensionContext,
+    private diffManager: DiffManager,
+  ) {
+    context.subscriptions.push(
+      // claude-scm:/<absolute path>?<before|after>
+      vscode.workspace.registerTextDocumentContentProvider(ClaudeScm.scheme, {
+        provideTextDocumentContent: (uri) => {
+          const diff = this.findDiff(uri.fsPath);
+          if (!diff) return '';
+          return uri.query === 'after' ? diff.after : diff.before;
+        },
+      }),
+      vscode.window.registerFileDecorationProvider(this),
+      diffManager.onDidChangeDiffs(() => this.refresh()),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.refresh()),
+      { dispose: () => this.folders.forEach(f => f.sourceControl.dispose()) },
+    );
+    this.refresh();
+  }
+
+  private refresh() {
+    const diffs = this.diffManager.getAllDiffs();
+    const roots = new Set((vscode.workspace.workspaceFolders ?? []).map(f => f.uri.fsPath));
+
+    for (const [root, folder] of this.folders) {
+      if (roots.has(root)) continue;
+      folder.sourceControl.dispose();
+      this.folders.delete(root);
+    }
+
+    for (const root of roots) {
+      const folder = this.folders.get(root) ?? this.createFolder(root);
+      const own = diffs.filter(d => d.root === root);
+      for (const status of ['pending', 'accepted', 'rejected'] as const) {
+        folder.groups[status].resourceStates = own
+          .filter(d => d.status === status)
+          .map(d => this.toResource(d));
+      }
+      folder.sourceControl.count = own.filter(d => d.status === 'pending').length;
+    }
+
+    // Decorations may have changed for any file we know about, including ones just dropped
+    this._onDidChangeFileDecorations.fire(undefined);
+  }
+
+  private createFolder(root: string): FolderScm {
+    const sourceControl = vscode.scm.createSourceControl('claude', 'Claude', vscode.Uri.file(root));
+    sourceControl.inputBox.visible = false;
+    sourceControl.quickDiffProvider = {
+      provideOriginalResource: (uri) => {
+        const diff = this.findDiff(uri.fsPath);
+        return diff && diff.status === 'pending' && !diff.binary ? this.sideUri(diff, 'before') : undefined;
+      },
+    };
+
+    const groups = {
+      pending: sourceControl.createResourceGroup('pending', 'Pending'),
+      accepted: sourceControl.createResourceGroup('accepted', 'Accepted'),
+      rejected: sourceControl.createResourceGroup('rejected', 'Rejected'),
+    };
+    groups.accepted.hideWhenEmpty = true;
+    groups.rejected.hideWhenEmpty = true;
+
+    const folder = { sourceControl, groups };
+    this.folders.set(root, folder);
+    return folder;
+  }
+
+  private toResource(diff: FileDiff): vscode.SourceControlResourceState {
+    const kind = diff.oldRelativePath ? `Moved from ${diff.oldRelativePath}` : diff.isNew ? 'Added' : diff.isDeleted ? 'Deleted' : 'Modified';
+    return {
+      resourceUri: vscode.Uri.file(diff.filePath),
+      contextValue: diff.status,
+      decorations: {
+        strikeThrough: diff.isDeleted,
+        faded: diff.status === 'rejected',
+        tooltip: `${kind} by Claude · ${diff.status}`,
+      },
+      command: diff.binary
+        ? { title: 'Open', command: 'vscode.open', arguments: [vscode.Uri.file(diff.filePath)] }
+        : {
+            title: 'Open Diff',
+            command: 'vscode.diff',
+            arguments: [
+              this.sideUri(diff, 'before'),
+              this.afterUri(diff),
+              `Claude: ${diff.relativePath}`,
+            ],
+          },
+    };
+  }
+
+  /** The real file where there is one, so the diff editor stays editable */
+  private afterUri(diff: FileDiff): vscode.Uri {
+    if (diff.status === 'pending' && diff.stagedPath) return vscode.Uri.file(diff.stagedPath);
+    // A rejected file is back to its original on disk — show what Claude wrote instead
+    if (diff.mode !== 'propose' && !diff.isDeleted && diff.status !== 'rejected') return vscode.Uri.file(diff.filePath);
+    return this.sideUri(diff, 'after');
+  }
+
+  private sideUri(diff: FileDiff, side: 'before' | 'after'): vscode.Uri {
+    return vscode.Uri.file(diff.filePath).with({ scheme: ClaudeScm.scheme, query: side });
+  }
+
+  provideFileDecoration(uri: vscode.Uri): vscode.FileDecoration | undefined {
+    if (uri.scheme !== 'file') return undefined;
+    const diff = this.findDiff(uri.fsPath);
+    // Rejected changes are gone from the workspace — nothing to flag
+    if (!diff || diff.status === 'rejected') return undefined;
+
+    if (diff.isNew) {
+      return new vscode.FileDecoration('A', 'Added by Claude', new vscode.ThemeColor('gitDecoration.addedResourceForeground'));
+    }
+    if (diff.oldPath) {
+      return new vscode.FileDecoration('R', 'Moved by Claude', new vscode.ThemeColor('gitDecoration.renamedResourceForeground'));
+    }
+    if (diff.isDeleted) {
+      return new vscode.FileDecoration('D', 'Deleted by Claude', new vscode.ThemeColor('gitDecoration.deletedResourceForeground'));
+    }
+    return new vscode.FileDecoration('M', 'Modified by Claude', new vscode.ThemeColor('gitDecoration.modifiedResourceForeground'));
+  }
+
+  private findDiff(filePath: string): FileDiff | undefined {
+    const normalized = path.normalize(filePath);
+    return this.diffManager.getAllDiffs().find(d => d.filePath === normalized);
+  }
+}
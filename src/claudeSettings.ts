@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { applyEdits, FormattingOptions, modify, parse, ParseError, printParseErrorCode } from 'jsonc-parser';
+
+/**
+ * Reading and editing Claude Code's settings files. They are JSON with
+ * comments and trailing commas allowed, and the user owns them: edits are
+ * made in place on the text, so comments, key order, indentation and keys
+ * this extension does not know survive. Nothing here may import 'vscode'.
+ *
+ * Scopes, as Claude Code resolves them:
+ *   user    → ~/.claude/settings.json, every project
+ *   project → <folder>/.claude/settings.json, shared with the team
+ *   local   → <folder>/.claude/settings.local.json, this machine only
+ */
+export type SettingsScope = 'user' | 'project' | 'local';
+
+/** The settings file for `scope`; project and local need the workspace folder */
+export function settingsPath(scope: SettingsScope, root = ''): string {
+  if (scope === 'user') return path.join(os.homedir(), '.claude', 'settings.json');
+  return path.join(root, '.claude', scope === 'project' ? 'settings.json' : 'settings.local.json');
+}
+
+/** The settings in `file`, or undefined if there is none. Throws if it is not a JSON object. */
+export function readSettings(file: string): Record<string, unknown> | undefined {
+  if (!fs.existsSync(file)) return undefined;
+  return parseSettings(fs.readFileSync(file, 'utf8'), file);
+}
+
+/**
+ * Sets top-level `values` in `file`, creating it if needed. The previous
+ * content is kept in `<file>.bak` and the new one is renamed into place, so
+ * Claude Code never reads a half-written file. A file that does not parse
+ * is left alone and an error is thrown. Returns false if nothing changed.
+ */
+export function updateSettings(file: string, values: Record<string, unknown>): boolean {
+  // Write through a symlink (e.g. a dotfiles checkout) rather than replacing it
+  const target = fs.existsSync(file) ? fs.realpathSync(file) : file;
+  const original = fs.existsSync(target) ? fs.readFileSync(target, 'utf8') : undefined;
+  const settings = parseSettings(original ?? '', file);
+
+  const start = original?.trim() ? original : '{}';
+  const formattingOptions = detectFormatting(start);
+  let text = start;
+  for (const [key, value] of Object.entries(values)) {
+    if (JSON.stringify(settings[key]) === JSON.stringify(value)) continue;
+    text = applyEdits(text, modify(text, [key], value, { formattingOptions }));
+  }
+  if (text === start) return false;
+
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  const tmp = `${target}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, original === undefined ? text + formattingOptions.eol : text);
+  if (original !== undefined) {
+    fs.copyFileSync(target, `${target}.bak`);
+    fs.chmodSync(tmp, fs.statSync(target).mode);
+  }
+  fs.renameSync(tmp, target);
+  return true;
+}
+
+function parseSettings(text: string, file: string): Record<string, unknown> {
+  if (!text.trim()) return {};
+  const errors: ParseError[] = [];
+  const value = parse(text, errors, { allowTrailingComma: true });
+  if (errors.length > 0) {
+    const { error, offset } = errors[0];
+    throw new Error(`${file} is not valid JSON (${printParseErrorCode(error)} at line ${lineAt(text, offset)})`);
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`${file} does not contain a JSON object`);
+  }
+  return value;
+}
+
+/** Indentation and line endings as the file already uses them */
+function detectFormatting(text: string): FormattingOptions {
+  const indent = /^([ \t]+)\S/m.exec(text)?.[1];
+  const tabs = indent?.startsWith('\t') ?? false;
+  return {
+    insertSpaces: !tabs,
+    tabSize: indent && !tabs ? indent.length : 2,
+    eol: text.includes('\r\n') ? '\r\n' : '\n',
+  };
+}
+
+function lineAt(text: string, offset: number): number {
+  return text.slice(0, offset).split('\n').length;
+}
@@ -3,54 +3,105 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as chokidar from 'chokidar'; // npm install chokidar
 import { DiffManager } from './diffManager';
-import { ClaudeModeManager } from './claudeModeManager';
+import { ClaudeMode, ClaudeModeManager } from './claudeModeManager';
+import { RunInfo, SessionHistory } from './sessionHistory';
+import { HookEventLog } from './hookEvents';
+import { HookEvent } from './hookProtocol';
+import { IgnoreRules } from './ignoreRules';
+import { PathPolicies } from './pathPolicies';
+import { ChangeClassifier } from './changeClassifier';
 
 /**
- * Watches for Claude Code activity by:
- * 1. Monitoring the .claude/activity.json file Claude writes during runs
- * 2. Using chokidar to watch filesystem changes while Claude is active
- * 3. Watching .claude/proposed/ directory in propose (dry-run) mode
+ * Watches one workspace folder for Claude Code activity by:
+ * 1. Consuming events from the bundled Claude Code hook (.claude/claude-diff/events.jsonl)
+ * 2. Falling back to polling .claude/activity.json until any hook event arrives
+ * 3. Using chokidar to watch filesystem changes while Claude is active
+ * 4. Watching .claude/proposed/ directory in propose (dry-run) mode
+ *
+ * Multi-root workspaces get one watcher per folder (see extension.ts).
  */
 export class ClaudeWatcher {
+  private static readonly liveDebounceMs = 300;
+
   private fsWatcher?: chokidar.FSWatcher;
-  private activityWatcher?: fs.FSWatcher;
+  private hookLog?: HookEventLog;
+  private hooksSeen = false;
   private changedFiles = new Set<string>();
+  private liveTimers = new Map<string, NodeJS.Timeout>();
   private isClaudeActive = false;
   private active = false;
+  private run?: RunInfo;
+  private ignoreRules: IgnoreRules;
 
   constructor(
+    readonly root: string,
     private diffManager: DiffManager,
     private modeManager: ClaudeModeManager,
-  ) {}
+    private history: SessionHistory,
+  ) {
+    this.ignoreRules = new IgnoreRules(root);
+  }
 
   start() {
     if (this.active) return;
     this.active = true;
+    this.watchHookEvents();
     this.watchClaudeActivity();
-    console.log('[ClaudeDiff] Watcher started');
+    console.log(`[ClaudeDiff] Watcher started for ${this.root}`);
   }
 
   stop() {
     this.active = false;
+    this.clearLiveTimers();
     this.fsWatcher?.close();
-    this.activityWatcher?.close();
-    console.log('[ClaudeDiff] Watcher stopped');
+    this.hookLog?.dispose();
+    this.hookLog = undefined;
+    console.log(`[ClaudeDiff] Watcher stopped for ${this.root}`);
+  }
+
+  /**
+   * Consume events from the bundled hook. Unlike polling, these cannot miss
+   * a short run, and PostToolUse tells us exactly which file was edited.
+   */
+  private watchHookEvents() {
+    this.hookLog = new HookEventLog(this.root);
+    this.hookLog.onEvent((e) => this.onHookEvent(e));
+  }
+
+  private onHookEvent(e: HookEvent) {
+    this.hooksSeen = true;
+
+    switch (e.event) {
+      case 'UserPromptSubmit':
+      case 'PreToolUse':
+        if (!this.isClaudeActive) this.onClaudeStarted(e.session, e.prompt);
+        break;
+      case 'PostToolUse': {
+        const mode = this.run?.mode;
+        if (!this.isClaudeActive || !e.file || mode === 'propose') break;
+        // Chokidar covers auto mode too; in ask mode this is the only source
+        const file = e.file;
+        this.changedFiles.add(file);
+        this.scheduleLiveUpdate(file, () => this.diffManager.updateLiveDiff(this.root, file, mode ?? 'auto'));
+        break;
+      }
+      case 'Stop':
+        if (this.isClaudeActive) this.onClaudeFinished();
+        break;
+    }
   }
 
   /**
    * Watch .claude/activity.json — Claude Code writes this when it starts/stops.
-   * Structure: { "status": "running" | "idle", "session": "..." }
+   * Structure: { "status": "running" | "idle", "session": "...", "prompt"?: "..." }
    */
   private watchClaudeActivity() {
-    const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-    if (!root) return;
+    const activityFile = path.join(this.root, '.claude', 'activity.json');
 
-    const activityFile = path.join(root, '.claude', 'activity.json');
-    const proposedDir = path.join(root, '.claude', 'proposed');
-
-    // Poll for activity file
+    // Poll for activity file — only a fallback for when the hook is not installed
     const poll = setInterval(() => {
       if (!this.active) { clearInterval(poll); return; }
+      if (this.hooksSeen) return;
 
       if (!fs.existsSync(activityFile)) return;
 
@@ -58,54 +109,108 @@ export class ClaudeWatcher {
         const data = JSON.parse(fs.readFileSync(activityFile, 'utf8'));
 
         if (data.status === 'running' && !this.isClaudeActive) {
-          this.onClaudeStarted(root);
+          this.onClaudeStarted(data.session, data.prompt);
         } else if (data.status === 'idle' && this.isClaudeActive) {
-          this.onClaudeFinished(root, proposedDir);
+          this.onClaudeFinished();
         }
       } catch {}
     }, 500);
   }
 
-  private onClaudeStarted(root: string) {
+  private get proposedDir(): string {
+    return path.join(this.root, '.claude', 'proposed');
+  }
+
+  private onClaudeStarted(sessionId?: string, prompt?: string) {
     this.isClaudeActive = true;
     this.changedFiles.clear();
     const mode = this.modeManager.currentMode;
+    const startedAt = Date.now();
+    this.run = { root: this.root, sessionId: sessionId || `session-${startedAt}`, startedAt, mode, prompt };
+    this.history.beginRun(this.root);
+    this.diffManager.beginRun(this.root);
+    // Pick up .gitignore and claudediff.exclude edits made since the last run
+    this.ignoreRules.reset();
 
-    console.log(`[ClaudeDiff] Claude started in ${mode} mode`);
+    console.log(`[ClaudeDiff] Claude started in ${mode} mode in ${this.root}`);
 
     if (mode === 'propose') {
       // In propose mode, Claude writes to .claude/proposed/ — watch that dir
-      const proposedDir = path.join(root, '.claude', 'proposed');
+      const proposedDir = this.proposedDir;
+      const onEvent = (fp: string) => {
+        this.changedFiles.add(fp);
+        this.scheduleLiveUpdate(fp, () => this.diffManager.updateLiveDiff(this.root, fp, mode, proposedDir));
+      };
       this.fsWatcher = chokidar.watch(proposedDir, { ignoreInitial: true });
-      this.fsWatcher.on('add', (fp) => this.changedFiles.add(fp));
-      this.fsWatcher.on('change', (fp) => this.changedFiles.add(fp));
+      this.fsWatcher.on('add', onEvent);
+      this.fsWatcher.on('change', onEvent);
+      this.fsWatcher.on('unlink', onEvent);
     } else if (mode === 'auto') {
       // Snapshot everything, then watch for actual changes
-      this.diffManager.snapshotWorkspace();
-      this.fsWatcher = chokidar.watch(root, {
-        ignored: /(node_modules|\.git|dist|out|\.claude)/,
+      this.diffManager.snapshotWorkspace(this.root, this.ignoreRules);
+      const onEvent = (fp: string) => {
+        this.diffManager.noteChange(fp);
+        this.changedFiles.add(fp);
+        this.scheduleLiveUpdate(fp, () => this.diffManager.updateLiveDiff(this.root, fp, mode));
+      };
+      this.fsWatcher = chokidar.watch(this.root, {
+        ignored: (fp: string, stats?: fs.Stats) => this.ignoreRules.ignores(fp, stats?.isDirectory()),
         ignoreInitial: true,
       });
-      this.fsWatcher.on('add', (fp) => this.changedFiles.add(fp));
-      this.fsWatcher.on('change', (fp) => this.changedFiles.add(fp));
-      this.fsWatcher.on('unlink', (fp) => this.changedFiles.add(fp));
+      this.fsWatcher.on('add', onEvent);
+      this.fsWatcher.on('change', onEvent);
+      this.fsWatcher.on('unlink', onEvent);
     } else if (mode === 'ask') {
       // In ask mode, snapshot before each potential edit
-      this.diffManager.snapshotWorkspace();
+      this.diffManager.snapshotWorkspace(this.root, this.ignoreRules);
     }
   }
 
-  private onClaudeFinished(root: string, proposedDir: string) {
+  private onClaudeFinished() {
     this.isClaudeActive = false;
+    this.clearLiveTimers();
     this.fsWatcher?.close();
-    const mode = this.modeManager.currentMode;
+    this.diffManager.endRun(this.root);
+    // The mode the run started in — switching modes mid-run must not change what is reviewed
+    const mode = this.run?.mode ?? this.modeManager.currentMode;
 
     console.log(`[ClaudeDiff] Claude finished. Changed files: ${this.changedFiles.size}`);
 
+    const policies = new PathPolicies(this.root);
+    const classifier = new ChangeClassifier(this.root);
     if (mode === 'propose') {
-      this.diffManager.loadProposedChanges(proposedDir);
-    } else if (mode === 'auto' || mode === 'ask') {
-      this.diffManager.computeDiffs([...this.changedFiles]);
+      this.diffManager.loadProposedChanges(this.root, this.proposedDir, policies, classifier);
+    } else {
+      this.diffManager.computeDiffs(this.root, [...this.changedFiles], mode, policies, classifier);
     }
+    // Everything the run changed, including what was already resolved without review
+    const diffs = this.diffManager.getAllDiffs().filter(d => d.root === this.root);
+    this.warnBlocked(diffs.filter(d => d.pathPolicy === 'block' && d.status === 'rejected').map(d => d.relativePath), mode);
+    if (this.run) this.history.record(this.run, diffs);
+  }
+
+  private warnBlocked(paths: string[], mode: ClaudeMode) {
+    if (paths.length === 0) return;
+    const shown = paths.slice(0, 3).join(', ') + (paths.length > 3 ? ` and ${paths.length - 3} more` : '');
+    const action = mode === 'propose' ? 'Discarded' : 'Rolled back';
+    console.log(`[ClaudeDiff] ${action} changes to blocked paths: ${paths.join(', ')}`);
+    vscode.window.showWarningMessage(`Claude Diff: ${action} Claude's changes to blocked paths — ${shown}`);
+  }
+
+  /**
+   * Debounces live diff updates per file — Claude often writes the same
+   * file several times in quick succession.
+   */
+  private scheduleLiveUpdate(fp: string, update: () => void) {
+    clearTimeout(this.liveTimers.get(fp));
+    this.liveTimers.set(fp, setTimeout(() => {
+      this.liveTimers.delete(fp);
+      update();
+    }, ClaudeWatcher.liveDebounceMs));
+  }
+
+  private clearLiveTimers() {
+    for (const timer of this.liveTimers.values()) clearTimeout(timer);
+    this.liveTimers.clear();
   }
 }
@@ -1,133 +1,520 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { createTwoFilesPatch } from 'diff'; // npm install diff @types/diff
+import { createHash } from 'crypto';
+import { createTwoFilesPatch, diffLines, structuredPatch } from 'diff'; // npm install diff @types/diff
+import { ClaudeMode } from './claudeModeManager';
+import { merge3, splitLines } from './merge3';
+import { IgnoreRules } from './ignoreRules';
+import { SnapshotStore } from './snapshotStore';
+import { FileState, ReviewAction, ReviewLog, ReviewStep } from './reviewLog';
+import { ManifestEntry, manifestPath, readManifest } from './proposedManifest';
+import { PathPolicies, PathPolicy } from './pathPolicies';
+import { ChangeClass, ChangeClassifier } from './changeClassifier';
+
+export type DiffStatus = 'pending' | 'accepted' | 'rejected';
+
+// A deleted and a new file at least this alike are a move (git's default)
+const RENAME_SIMILARITY = 0.5;
+// Above this, deleted × new candidates are not compared at all
+const MAX_RENAME_PAIRS = 2500;
+// Files this large are paired only when identical — comparing lines costs too much
+const MAX_SIMILARITY_SIZE = 512 * 1024;
+
+export interface DiffHunk {
+  index: number;
+  header: string;           // "@@ -a,b +c,d @@" as shown in the patch
+  oldStart: number;         // 1-based, as reported by jsdiff
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: string[];          // hunk body, each line prefixed with ' ', '+', '-' or '\'
+  status: DiffStatus;
+  comment?: string;         // reviewer's note on this change, sent back to Claude as feedback
+}
+
+/**
+ * An accept/reject that could not be applied cleanly because the file was
+ * edited on disk after Claude's change was captured.
+ */
+export interface MergeConflict {
+  status: 'accepted' | 'rejected'; // the action that hit the conflict
+  hunks: number[];                 // hunk indexes the action applies to
+  target: string | Buffer | undefined; // what the action would write (undefined → delete)
+  merged?: string;                 // three-way merge with conflict markers — not for binary files
+  count: number;                   // number of conflicting regions
+}
+
+/** One side of a binary change, kept byte for byte */
+export interface BinaryContent {
+  data: Buffer;
+  size: number;
+  sha256: string;
+}
 
 export interface FileDiff {
   filePath: string;         // absolute path
-  relativePath: string;     // relative to workspace root
+  root: string;             // workspace folder the file belongs to
+  relativePath: string;     // relative to `root`
   before: string;
   after: string;
   patch: string;            // unified diff string
-  status: 'pending' | 'accepted' | 'rejected';
+  hunks: DiffHunk[];
+  status: DiffStatus;
   isNew: boolean;
   isDeleted: boolean;
+  mode: ClaudeMode;         // mode the diff was captured in — decides which side is on disk
+  stagedPath?: string;      // propose mode: the copy under .claude/proposed/
+  conflict?: MergeConflict;
+  // Set for binary files: `before`/`after` are then empty and the single hunk
+  // stands for the whole file. A missing side means the file did not exist.
+  binary?: { before?: BinaryContent; after?: BinaryContent };
+  // Set when Claude moved the file here: `before` is the content at the old
+  // path and the hunks are what changed on the way. The move itself is
+  // undone only when every hunk is rejected. A move without content changes
+  // has a single hunk with no lines.
+  oldPath?: string;         // absolute
+  oldRelativePath?: string; // relative to `root`
+  // From a propose-mode manifest entry. A change whose original no longer
+  // matches `baseSha256` is stale: it was staged against other content and
+  // cannot be accepted.
+  fileMode?: string;        // git-style octal mode to set on accept, e.g. "100755"
+  oldFileMode?: string;     // the mode the file has now, when `fileMode` changes it
+  baseSha256?: string;
+  staleBase?: boolean;
+  // Auto/ask mode: Claude changed the file before its snapshot was taken, so
+  // its original is unknown. `before` is empty and the change can only be
+  // accepted — rejecting it would throw away the file.
+  unknownBase?: boolean;
+  comment?: string;         // reviewer's note on the whole file
+  // The claudediff.pathPolicies rule that matched when the run ended
+  pathPolicy?: PathPolicy;
+  policyPattern?: string;
+  changeClass?: ChangeClass;  // what kind of trivial change this is, if it is one
+  autoAccepted?: boolean;     // accepted by a path policy or claudediff.autoAccept, not by the reviewer
 }
 
 export class DiffManager {
-  private snapshots = new Map<string, string>(); // path → original content
+  private snapshots: SnapshotStore;
   private diffs = new Map<string, FileDiff>();
+  private proposedDirs = new Map<string, string>(); // workspace folder → its .claude/proposed/
+  private running = new Set<string>();              // workspace folders with a live Claude run
+  private log: ReviewLog;
+  private batchAction?: ReviewAction;               // set while batch() collects steps
 
   private _onChangesReady = new vscode.EventEmitter<FileDiff[]>();
   readonly onChangesReady = this._onChangesReady.event;
 
-  get workspaceRoot(): string {
-    return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? '';
+  /** Fires whenever the diff set or any diff's status changes */
+  private _onDidChangeDiffs = new vscode.EventEmitter<void>();
+  readonly onDidChangeDiffs = this._onDidChangeDiffs.event;
+
+  constructor(storageDir: string) {
+    this.snapshots = new SnapshotStore(storageDir);
+    this.log = new ReviewLog(storageDir);
   }
 
-  /** Called before Claude starts — snapshot current files */
-  snapshotFiles(filePaths: string[]) {
-    for (const fp of filePaths) {
-      if (fs.existsSync(fp)) {
-        this.snapshots.set(fp, fs.readFileSync(fp, 'utf8'));
-      } else {
-        this.snapshots.set(fp, ''); // new file
-      }
-    }
+  /** Workspace folder containing `fp`, falling back to the first folder */
+  rootFor(fp: string): string {
+    return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(fp))?.uri.fsPath
+      ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+      ?? '';
   }
 
-  snapshotWorkspace() {
-    const root = this.workspaceRoot;
-    if (!root) return;
-    this.snapshotDirectory(root);
+  /** True while Claude is still writing in any folder */
+  get isRunning(): boolean {
+    return this.running.size > 0;
   }
 
-  private snapshotDirectory(dir: string) {
-    const ignore = new Set(['node_modules', '.git', 'dist', 'out', '.claude']);
-    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
-      if (ignore.has(entry.name)) continue;
-      const full = path.join(dir, entry.name);
-      if (entry.isDirectory()) {
-        this.snapshotDirectory(full);
-      } else if (entry.isFile() && this.isTextFile(full)) {
-        this.snapshots.set(full, fs.readFileSync(full, 'utf8'));
-      }
-    }
+  /** True while Claude is still writing in `root` — its accept/reject are locked */
+  isRunningIn(root: string): boolean {
+    return this.running.has(root);
   }
 
-  /** Called after Claude finishes — compute diffs */
-  computeDiffs(changedPaths?: string[]) {
-    const paths = changedPaths ?? [...this.snapshots.keys()];
-    this.diffs.clear();
+  /** Called when Claude starts in `root` — drops that folder's previous diffs and locks review */
+  beginRun(root: string) {
+    this.running.add(root);
+    this.clearRoot(root);
+    // A new session — the previous review can no longer be undone
+    this.log.dropRoot(root);
+    this._onDidChangeDiffs.fire();
+  }
 
-    for (const fp of paths) {
-      const before = this.snapshots.get(fp) ?? '';
-      const exists = fs.existsSync(fp);
-      const after = exists ? fs.readFileSync(fp, 'utf8') : '';
-
-      if (before === after) continue;
-
-      const rel = path.relative(this.workspaceRoot, fp);
-      const patch = createTwoFilesPatch(
-        `a/${rel}`, `b/${rel}`, before, after, '', ''
-      );
-
-      this.diffs.set(fp, {
-        filePath: fp,
-        relativePath: rel,
-        before,
-        after,
-        patch,
-        status: 'pending',
-        isNew: before === '' && after !== '',
-        isDeleted: before !== '' && after === '',
-      });
-    }
+  /** Called when Claude finishes, before the final diffs are computed */
+  endRun(root: string) {
+    this.running.delete(root);
+  }
+
+  /** Called when a folder leaves the workspace — forgets its diffs */
+  removeFolder(root: string) {
+    this.running.delete(root);
+    this.proposedDirs.delete(root);
+    this.clearRoot(root);
+    this.snapshots.release(root);
+    this.log.dropRoot(root);
+    this._onDidChangeDiffs.fire();
+  }
+
+  /**
+   * Refreshes the diff of a single file while Claude is still running.
+   * In propose mode `filePath` is the staged copy under `proposedDir`.
+   */
+  updateLiveDiff(root: string, filePath: string, mode: ClaudeMode, proposedDir?: string) {
+    if (!this.running.has(root)) return;
+
+    const staged = mode === 'propose' && proposedDir !== undefined;
+    // The manifest is read once the run ends
+    if (staged && filePath === manifestPath(proposedDir)) return;
+    const realPath = staged
+      ? path.join(root, path.relative(proposedDir, filePath))
+      : filePath;
+    const diff = staged
+      ? this.diffFromStaged(root, proposedDir, filePath)
+      : this.diffFromDisk(root, filePath, mode);
+
+    if (diff) this.diffs.set(realPath, diff);
+    else this.diffs.delete(realPath);
+    this._onDidChangeDiffs.fire();
+  }
 
-    if (this.diffs.size > 0) {
-      this._onChangesReady.fire(this.getPendingDiffs());
+  /**
+   * Called before Claude starts — snapshots `root` into the on-disk store.
+   * Returns immediately; the content is copied in the background.
+   */
+  snapshotWorkspace(root: string, rules: IgnoreRules) {
+    this.snapshots.begin(root, rules).catch((e) => {
+      console.warn(`[ClaudeDiff] Snapshot of ${root} failed:`, e);
+    });
+  }
+
+  /** Called as soon as the watcher sees `fp` change, before its live diff is due */
+  noteChange(fp: string) {
+    this.snapshots.noteChange(fp);
+  }
+
+  /**
+   * Called after Claude finishes in `root` — compute that folder's diffs.
+   * With `policies`, auto paths are accepted and blocked ones rolled back;
+   * with `classifier`, trivial changes are tagged and, if configured, accepted.
+   */
+  computeDiffs(root: string, changedPaths?: string[], mode: ClaudeMode = 'auto', policies?: PathPolicies, classifier?: ChangeClassifier) {
+    // Without a list, only files whose size or mtime moved can have changed
+    const paths = changedPaths ?? this.snapshots.paths(root).filter(fp => !this.snapshots.unchanged(fp));
+    this.clearRoot(root);
+
+    for (const fp of paths) {
+      const diff = this.diffFromDisk(root, fp, mode);
+      if (diff) this.diffs.set(fp, diff);
     }
+    this.detectRenames(root);
 
-    return this.getPendingDiffs();
+    return this.changesReady(root, policies, classifier);
   }
 
-  /** Called when Claude proposes changes (dry-run mode) */
-  loadProposedChanges(proposedDir: string) {
-    if (!fs.existsSync(proposedDir)) return;
-    const root = this.workspaceRoot;
+  /** Called when Claude proposes changes in `root` (dry-run mode) */
+  loadProposedChanges(root: string, proposedDir: string, policies?: PathPolicies, classifier?: ChangeClassifier) {
+    if (!fs.existsSync(proposedDir)) return [];
+    this.proposedDirs.set(root, proposedDir);
+
+    // Manifest entries first; staged files it does not mention are plain creates/modifies
+    const listed = new Set([manifestPath(proposedDir)]);
+    for (const entry of readManifest(proposedDir)?.entries ?? []) {
+      listed.add(path.join(proposedDir, fromPosix(entry.op === 'rename' ? entry.to : entry.path)));
+      const diff = this.diffFromManifest(root, proposedDir, entry);
+      if (diff) this.diffs.set(diff.filePath, diff);
+    }
 
     const walk = (dir: string) => {
       for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
         const full = path.join(dir, entry.name);
         if (entry.isDirectory()) walk(full);
-        else {
-          const relative = path.relative(proposedDir, full);
-          const actual = path.join(root, relative);
-          const before = fs.existsSync(actual) ? fs.readFileSync(actual, 'utf8') : '';
-          const after = fs.readFileSync(full, 'utf8');
-          if (before !== after) {
-            const patch = createTwoFilesPatch(
-              `a/${relative}`, `b/${relative}`, before, after, '', ''
-            );
-            this.diffs.set(actual, {
-              filePath: actual,
-              relativePath: relative,
-              before,
-              after,
-              patch,
-              status: 'pending',
-              isNew: before === '',
-              isDeleted: false,
-            });
-          }
+        else if (!listed.has(full)) {
+          const diff = this.diffFromStaged(root, proposedDir, full);
+          if (diff) this.diffs.set(diff.filePath, diff);
         }
       }
     };
     walk(proposedDir);
 
-    if (this.diffs.size > 0) {
-      this._onChangesReady.fire(this.getPendingDiffs());
+    const pending = this.changesReady(root, policies, classifier);
+    this.cleanupProposedDir(root);
+    return pending;
+  }
+
+  /**
+   * Adds changes that did not come from Claude — an imported patch — as
+   * pending diffs. They are reviewed like proposals: the files on disk stay
+   * as they are until a change is accepted. A `mode` is applied on accept,
+   * like a manifest's.
+   */
+  importChanges(root: string, changes: { relativePath: string; before?: Buffer; after?: Buffer; mode?: string }[]): FileDiff[] {
+    if (this.running.has(root)) return [];
+    for (const change of changes) {
+      const fp = path.join(root, change.relativePath);
+      const oldMode = change.before !== undefined && change.after !== undefined ? modeOf(fp) : undefined;
+      const modeChanged = !!change.mode && !!oldMode && gitMode(change.mode) !== gitMode(oldMode);
+      if (sameContent(change.before, change.after) && !modeChanged) continue;
+      const diff = this.buildDiff(root, fp, change.relativePath, change.before, change.after, {
+        isNew: change.before === undefined,
+        isDeleted: change.after === undefined,
+        mode: 'propose',
+      });
+      setFileMode(diff, change.after === undefined ? undefined : change.mode, modeChanged ? oldMode : undefined);
+      this.diffs.set(fp, diff);
+    }
+    this.detectRenames(root);
+    return this.changesReady(root);
+  }
+
+  /**
+   * Pairs pending deleted and new files of `root` with similar content into
+   * one diff for the move, so accepting or rejecting it keeps the file at
+   * one of its two paths. Best matches are paired first.
+   */
+  private detectRenames(root: string) {
+    const own = [...this.diffs.values()].filter(d => d.root === root && d.status === 'pending');
+    const deleted = own.filter(d => d.isDeleted);
+    const added = own.filter(d => d.isNew);
+    if (deleted.length === 0 || added.length === 0 || deleted.length * added.length > MAX_RENAME_PAIRS) return;
+
+    const pairs = deleted
+      .flatMap(from => added.map(to => ({ from, to, score: similarity(from, to) })))
+      .filter(p => p.from.mode === p.to.mode && p.score >= RENAME_SIMILARITY)
+      .sort((a, b) => b.score - a.score);
+    const paired = new Set<FileDiff>();
+
+    for (const { from, to } of pairs) {
+      if (paired.has(from) || paired.has(to)) continue;
+      paired.add(from);
+      paired.add(to);
+      this.diffs.delete(from.filePath);
+      const moved = this.buildDiff(root, to.filePath, to.relativePath, sideBytes(from, 'before'), sideBytes(to, 'after'), {
+        isNew: false,
+        isDeleted: false,
+        mode: to.mode,
+        stagedPath: to.stagedPath,
+        oldPath: from.filePath,
+        oldRelativePath: from.relativePath,
+      });
+      moved.fileMode = to.fileMode;
+      this.diffs.set(to.filePath, moved);
+    }
+  }
+
+  /** Notifies listeners of a finished run and returns its pending diffs */
+  private changesReady(root: string, policies?: PathPolicies, classifier?: ChangeClassifier): FileDiff[] {
+    if (policies && !policies.isEmpty) this.applyPolicies(root, policies);
+    if (classifier) this.applyClassifier(root, classifier);
+    const pending = this.getPendingDiffs().filter(d => d.root === root);
+    if (pending.length === 0) this.snapshots.release(root);
+    this._onDidChangeDiffs.fire();
+    if (pending.length > 0) {
+      this._onChangesReady.fire(pending);
+    }
+    return pending;
+  }
+
+  /** Tags the run's diffs with their path policy, then accepts auto paths and rolls back blocked ones */
+  private applyPolicies(root: string, policies: PathPolicies) {
+    const own = this.getPendingDiffs().filter(d => d.root === root);
+    for (const diff of own) {
+      const rule = policies.match(diff.relativePath, diff.oldRelativePath);
+      diff.pathPolicy = rule?.policy;
+      diff.policyPattern = rule?.pattern;
+    }
+
+    // A stale proposal cannot be accepted; it stays pending for review
+    const auto = own.filter(d => d.pathPolicy === 'auto' && !d.staleBase);
+    const blocked = own.filter(d => d.pathPolicy === 'block');
+    if (auto.length + blocked.length === 0) return;
+    this.batch('Apply path policies', () => {
+      auto.forEach(d => this.acceptFile(d.filePath));
+      blocked.forEach(d => this.rejectFile(d.filePath));
+    });
+    for (const diff of auto) diff.autoAccepted = diff.status === 'accepted';
+  }
+
+  /**
+   * Tags the run's diffs with their change class, then accepts the pending
+   * ones whose class is set to be auto-accepted — unless a path policy says
+   * they need review.
+   */
+  private applyClassifier(root: string, classifier: ChangeClassifier) {
+    const own = [...this.diffs.values()].filter(d => d.root === root);
+    for (const diff of own) diff.changeClass = classifier.classify(diff);
+
+    const trivial = own.filter(d => d.status === 'pending' && classifier.autoAccepts(d.changeClass)
+      && d.pathPolicy !== 'propose' && !d.staleBase);
+    if (trivial.length === 0) return;
+    this.batch('Auto-accept trivial changes', () => trivial.forEach(d => this.acceptFile(d.filePath)));
+    for (const diff of trivial) diff.autoAccepted = diff.status === 'accepted';
+  }
+
+  private clearRoot(root: string) {
+    for (const [fp, diff] of this.diffs) {
+      if (diff.root === root) this.diffs.delete(fp);
+    }
+  }
+
+  /** Auto/ask mode: snapshot taken before the run vs. the file on disk */
+  private diffFromDisk(root: string, fp: string, mode: ClaudeMode): FileDiff | undefined {
+    const before = this.snapshots.read(fp);
+    const after = fs.existsSync(fp) ? fs.readFileSync(fp) : undefined;
+    if (before !== null && sameContent(before, after)) return undefined;
+
+    const rel = path.relative(root, fp);
+    const diff = this.buildDiff(root, fp, rel, before ?? undefined, after, {
+      isNew: before === undefined,
+      isDeleted: after === undefined,
+      mode,
+    });
+    if (before === null) {
+      diff.unknownBase = true;
+      // Gone before its content was captured — the deletion can only be acknowledged
+      if (after === undefined) diff.hunks[0].header = 'Deleted before its original was captured';
+    }
+    return diff;
+  }
+
+  /** Propose mode: the workspace file vs. its staged copy */
+  private diffFromStaged(root: string, proposedDir: string, staged: string): FileDiff | undefined {
+    if (!fs.existsSync(staged)) return undefined;
+    const relative = path.relative(proposedDir, staged);
+    const actual = path.join(root, relative);
+    const before = fs.existsSync(actual) ? fs.readFileSync(actual) : undefined;
+    const after = fs.readFileSync(staged);
+    if (sameContent(before, after)) return undefined;
+
+    return this.buildDiff(root, actual, relative, before, after, {
+      isNew: before === undefined,
+      isDeleted: false,
+      mode: 'propose',
+      stagedPath: staged,
+    });
+  }
+
+  /** Propose mode: one manifest entry, its new content (if any) staged under `proposedDir` */
+  private diffFromManifest(root: string, proposedDir: string, entry: ManifestEntry): FileDiff | undefined {
+    const relative = fromPosix(entry.op === 'rename' ? entry.to : entry.path);
+    const from = entry.op === 'rename' ? fromPosix(entry.from) : entry.op === 'create' ? undefined : relative;
+    if (!insideRoot(root, relative) || (from !== undefined && !insideRoot(root, from))) {
+      console.warn(`[ClaudeDiff] Proposed ${entry.op} of ${relative} points outside ${root} — skipping it`);
+      return undefined;
+    }
+    const filePath = path.join(root, relative);
+    const staged = path.join(proposedDir, relative);
+    const hasStaged = entry.op !== 'delete' && fs.existsSync(staged);
+
+    const basePath = path.join(root, from ?? relative);
+    const before = fs.existsSync(basePath) ? fs.readFileSync(basePath) : undefined;
+    if (from !== undefined && before === undefined) {
+      console.warn(`[ClaudeDiff] Proposed ${entry.op} of ${from}, which does not exist — skipping it`);
+      return undefined;
     }
+    const after = entry.op === 'delete' ? undefined
+      : hasStaged ? fs.readFileSync(staged)
+      : entry.op === 'rename' || (entry.op === 'modify' && entry.mode) ? before
+      : undefined;
+    if (entry.op !== 'delete' && after === undefined) {
+      console.warn(`[ClaudeDiff] Proposed ${entry.op} of ${relative} has no staged content — skipping it`);
+      return undefined;
+    }
+    // A chmod is a change of its own, even with the content left as it is
+    const newMode = entry.op === 'delete' ? undefined : entry.mode;
+    const oldMode = entry.op !== 'create' && entry.op !== 'delete' ? modeOf(basePath) : undefined;
+    const modeChanged = !!newMode && !!oldMode && gitMode(newMode) !== gitMode(oldMode);
+    if (entry.op !== 'rename' && sameContent(before, after) && !modeChanged) return undefined;
+
+    const diff = this.buildDiff(root, filePath, relative, entry.op === 'create' ? undefined : before, after, {
+      isNew: entry.op === 'create',
+      isDeleted: entry.op === 'delete',
+      mode: 'propose',
+      stagedPath: hasStaged ? staged : undefined,
+      oldPath: entry.op === 'rename' ? basePath : undefined,
+      oldRelativePath: entry.op === 'rename' ? from : undefined,
+    });
+    setFileMode(diff, newMode, modeChanged ? oldMode : undefined);
+    diff.baseSha256 = entry.op === 'create' ? undefined : entry.baseSha256;
+    // A create is stale if something already took its path
+    diff.staleBase = entry.op === 'create' ? before !== undefined : baseChanged(diff);
+    return diff;
+  }
+
+  private buildDiff(
+    root: string,
+    filePath: string,
+    relativePath: string,
+    beforeBytes: Buffer | undefined,
+    afterBytes: Buffer | undefined,
+    flags: Pick<FileDiff, 'isNew' | 'isDeleted' | 'mode' | 'stagedPath' | 'oldPath' | 'oldRelativePath'>,
+  ): FileDiff {
+    const oldRelativePath = flags.oldRelativePath ?? relativePath;
+    if (isBinaryContent(beforeBytes) || isBinaryContent(afterBytes)) {
+      return {
+        filePath,
+        root,
+        relativePath,
+        before: '',
+        after: '',
+        patch: `Binary files a/${oldRelativePath} and b/${relativePath} differ\n`,
+        hunks: [{
+          index: 0,
+          header: 'Binary file',
+          oldStart: 0,
+          oldLines: 0,
+          newStart: 0,
+          newLines: 0,
+          lines: [],
+          status: 'pending',
+        }],
+        status: 'pending',
+        binary: { before: binaryContent(beforeBytes), after: binaryContent(afterBytes) },
+        ...flags,
+      };
+    }
+
+    const before = beforeBytes?.toString('utf8') ?? '';
+    const after = afterBytes?.toString('utf8') ?? '';
+    const patch = createTwoFilesPatch(
+      `a/${oldRelativePath}`, `b/${relativePath}`, before, after, '', ''
+    );
+    const hunks = structuredPatch(
+      `a/${oldRelativePath}`, `b/${relativePath}`, before, after, '', ''
+    ).hunks.map((h, index): DiffHunk => ({
+      index,
+      header: formatHunkHeader(h.oldStart, h.oldLines, h.newStart, h.newLines),
+      oldStart: h.oldStart,
+      oldLines: h.oldLines,
+      newStart: h.newStart,
+      newLines: h.newLines,
+      lines: h.lines,
+      status: 'pending',
+    }));
+    if (hunks.length === 0) {
+      // Moved as is, or an empty file created or deleted — one empty hunk carries the accept/reject
+      hunks.push({
+        index: 0,
+        header: flags.oldPath ? 'Moved without changes' : flags.isNew ? 'Empty file created' : flags.isDeleted ? 'Empty file deleted' : 'No line changes',
+        oldStart: 1,
+        oldLines: 0,
+        newStart: 1,
+        newLines: 0,
+        lines: [],
+        status: 'pending',
+      });
+    }
+
+    return {
+      filePath,
+      root,
+      relativePath,
+      before,
+      after,
+      patch,
+      hunks,
+      status: 'pending',
+      ...flags,
+    };
   }
 
   getPendingDiffs(): FileDiff[] {
@@ -138,53 +525,516 @@ export class DiffManager {
     return [...this.diffs.values()];
   }
 
+  /** Sets the review comment on a file, or on one of its hunks; empty text removes it */
+  setComment(filePath: string, hunkIndex: number | undefined, text: string) {
+    const diff = this.diffs.get(filePath);
+    const target = hunkIndex === undefined ? diff : diff?.hunks[hunkIndex];
+    if (!target) return;
+    target.comment = text.trim() || undefined;
+    this._onDidChangeDiffs.fire();
+  }
+
   acceptFile(filePath: string) {
     const diff = this.diffs.get(filePath);
     if (!diff) return;
-    // Changes already on disk — just mark accepted
-    diff.status = 'accepted';
-    this.snapshots.set(filePath, diff.after);
+    this.resolveHunks(diff, diff.hunks.filter(h => h.status === 'pending'), 'accepted');
   }
 
   rejectFile(filePath: string) {
     const diff = this.diffs.get(filePath);
     if (!diff) return;
-    // Restore original
-    if (diff.isNew) {
-      fs.unlinkSync(filePath);
+    this.resolveHunks(diff, diff.hunks.filter(h => h.status === 'pending'), 'rejected');
+  }
+
+  /** Rejects the accepted changes of a file, e.g. one that was auto-accepted */
+  revertFile(filePath: string) {
+    const diff = this.diffs.get(filePath);
+    if (!diff) return;
+    this.batch(`Revert ${diff.relativePath}`, () => {
+      this.resolveHunks(diff, diff.hunks.filter(h => h.status === 'accepted'), 'rejected');
+    });
+  }
+
+  acceptHunk(filePath: string, index: number) {
+    const diff = this.diffs.get(filePath);
+    const hunk = diff?.hunks[index];
+    if (!diff || hunk?.status !== 'pending') return;
+    this.resolveHunks(diff, [hunk], 'accepted');
+  }
+
+  rejectHunk(filePath: string, index: number) {
+    const diff = this.diffs.get(filePath);
+    const hunk = diff?.hunks[index];
+    if (!diff || hunk?.status !== 'pending') return;
+    this.resolveHunks(diff, [hunk], 'rejected');
+  }
+
+  /**
+   * Marks the given hunks resolved and brings the workspace in line with the
+   * mix of accepted and rejected hunks. The file counts as resolved only once
+   * every hunk is.
+   *
+   * If the file on disk is no longer what we left there (the user edited it
+   * after Claude), the change is three-way merged into the user's version
+   * instead of overwriting it. A merge with conflicts is not applied; it is
+   * parked on `diff.conflict` for resolveConflict().
+   */
+  private resolveHunks(diff: FileDiff, hunks: DiffHunk[], status: 'accepted' | 'rejected') {
+    if (hunks.length === 0 || this.running.has(diff.root)) return;
+    // There is no original to go back to — see FileDiff.unknownBase
+    if (status === 'rejected' && diff.unknownBase) return;
+    if (status === 'accepted' && baseChanged(diff)) {
+      // Staged against content that is no longer there — applying it would lose that change
+      diff.staleBase = true;
+      this._onDidChangeDiffs.fire();
+      return;
+    }
+
+    const before = this.fileState(diff);
+    const expected = expectedOnDisk(diff);
+    const target = expectedOnDisk(diff, hunks, status);
+    let content = target;
+
+    if (diff.oldPath) {
+      // A move also takes the old path away or puts it back — only if nothing else took it meanwhile
+      const oldExpected = expectedAtOldPath(diff);
+      if (!sameContent(expectedAtOldPath(diff, hunks, status), oldExpected)
+        && !sameContent(readOnDisk(diff.oldPath, true), oldExpected)) {
+        diff.conflict = { status, hunks: hunks.map(h => h.index), target, count: 1 };
+        this._onDidChangeDiffs.fire();
+        return;
+      }
+    }
+
+    if (!sameContent(target, expected)) {
+      const current = readOnDisk(diff.filePath, !!diff.binary);
+      if (!sameContent(current, expected)) {
+        if (diff.binary) {
+          // Nothing to merge in a binary file — the user picks a side
+          diff.conflict = { status, hunks: hunks.map(h => h.index), target, count: 1 };
+          this._onDidChangeDiffs.fire();
+          return;
+        }
+        const merged = merge3((expected ?? '').toString(), (current ?? '').toString(), (target ?? '').toString(), {
+          ours: 'Your edits',
+          theirs: status === 'accepted' ? 'Accepted Claude change' : 'Rejected Claude change',
+        });
+        if (merged.conflicts > 0) {
+          diff.conflict = {
+            status,
+            hunks: hunks.map(h => h.index),
+            target,
+            merged: merged.content,
+            count: merged.conflicts,
+          };
+          this._onDidChangeDiffs.fire();
+          return;
+        }
+        // A clean merge of a deletion that leaves nothing behind is still a deletion
+        content = target === undefined && merged.content === '' ? undefined : merged.content;
+      }
+      writeOnDisk(diff.filePath, content);
+    }
+    applyFileMode(diff, content, diff.hunks.some(h => (hunks.includes(h) ? status : h.status) === 'accepted'));
+    if (diff.oldPath) writeOnDisk(diff.oldPath, expectedAtOldPath(diff, hunks, status));
+
+    this.finishResolve(diff, hunks, status, before);
+  }
+
+  /**
+   * Settles a parked conflict:
+   *  markers   → write the merge with conflict markers and fix it up in the editor
+   *              (binary files have no merge, so this behaves like cancel)
+   *  overwrite → write the action's result, discarding the edits made on disk
+   *  cancel    → leave the disk alone and keep the hunks pending
+   */
+  resolveConflict(filePath: string, choice: 'markers' | 'overwrite' | 'cancel') {
+    const diff = this.diffs.get(filePath);
+    const conflict = diff?.conflict;
+    if (!diff || !conflict) return;
+    diff.conflict = undefined;
+
+    if (choice === 'overwrite' || (choice === 'markers' && conflict.merged !== undefined)) {
+      const before = this.fileState(diff);
+      const content = choice === 'markers' ? conflict.merged : conflict.target;
+      writeOnDisk(diff.filePath, content);
+      const hunks = diff.hunks.filter(h => conflict.hunks.includes(h.index) && h.status === 'pending');
+      applyFileMode(diff, content, diff.hunks.some(h => (hunks.includes(h) ? conflict.status : h.status) === 'accepted'));
+      if (diff.oldPath) writeOnDisk(diff.oldPath, expectedAtOldPath(diff, hunks, conflict.status));
+      this.finishResolve(diff, hunks, conflict.status, before);
     } else {
-      fs.writeFileSync(filePath, diff.before, 'utf8');
+      this._onDidChangeDiffs.fire();
     }
-    diff.status = 'rejected';
   }
 
-  acceptAll() {
-    for (const diff of this.diffs.values()) {
-      if (diff.status === 'pending') this.acceptFile(diff.filePath);
+  private finishResolve(diff: FileDiff, hunks: DiffHunk[], status: 'accepted' | 'rejected', before: FileState) {
+    const proposedDir = this.proposedDirs.get(diff.root);
+    for (const hunk of hunks) hunk.status = status;
+    diff.status = fileStatus(diff);
+    diff.conflict = undefined;
+
+    if (diff.status !== 'pending') {
+      if (diff.mode === 'propose') {
+        // The staged copy has served its purpose
+        if (diff.stagedPath && fs.existsSync(diff.stagedPath)) fs.unlinkSync(diff.stagedPath);
+        this.cleanupProposedDir(diff.root);
+      }
+      // The folder's review is done — its snapshots are no longer needed
+      if (!this.getPendingDiffs().some(d => d.root === diff.root)) this.snapshots.release(diff.root);
+    }
+
+    const step: ReviewStep = {
+      filePath: diff.filePath,
+      oldPath: diff.oldPath,
+      root: diff.root,
+      proposedDir,
+      before,
+      after: this.fileState(diff),
+    };
+    if (this.batchAction) {
+      this.batchAction.steps.push(step);
+    } else {
+      const verb = status === 'accepted' ? 'Accept' : 'Reject';
+      const what = hunks.length < diff.hunks.length ? `change in ${diff.relativePath}` : diff.relativePath;
+      this.log.record({ label: `${verb} ${what}`, time: Date.now(), steps: [step] });
     }
+    this._onDidChangeDiffs.fire();
+  }
+
+  /** Removes a folder's .claude/proposed/ once no staged file is waiting for review */
+  private cleanupProposedDir(root: string) {
+    const proposedDir = this.proposedDirs.get(root);
+    if (!proposedDir) return;
+    const waiting = this.getPendingDiffs().some(d => d.root === root && d.mode === 'propose');
+    if (waiting) return;
+    fs.rmSync(proposedDir, { recursive: true, force: true });
+    this.proposedDirs.delete(root);
+  }
+
+  acceptAll() {
+    this.batch('Accept All', () => {
+      for (const diff of this.diffs.values()) {
+        if (diff.status === 'pending') this.acceptFile(diff.filePath);
+      }
+    });
   }
 
   rejectAll() {
-    for (const diff of this.diffs.values()) {
-      if (diff.status === 'pending') this.rejectFile(diff.filePath);
+    this.batch('Reject All', () => {
+      for (const diff of this.diffs.values()) {
+        if (diff.status === 'pending') this.rejectFile(diff.filePath);
+      }
+    });
+  }
+
+  /** Runs several accepts/rejects as one action, so a single undo reverts all of them */
+  batch(label: string, fn: () => void) {
+    if (this.batchAction) {
+      fn();
+      return;
+    }
+    const action: ReviewAction = { label, time: Date.now(), steps: [] };
+    this.batchAction = action;
+    try {
+      fn();
+    } finally {
+      this.batchAction = undefined;
+      if (action.steps.length > 0) {
+        this.log.record(action);
+        this._onDidChangeDiffs.fire();
+      }
+    }
+  }
+
+  /** Label of the action undo() would revert, if any */
+  get undoLabel(): string | undefined {
+    return this.log.nextUndo?.label;
+  }
+
+  /** Label of the action redo() would repeat, if any */
+  get redoLabel(): string | undefined {
+    return this.log.nextRedo?.label;
+  }
+
+  /**
+   * Files the next undo (or redo) would overwrite although they were edited
+   * on disk after the action — callers should confirm before going ahead.
+   */
+  editedSince(direction: 'undo' | 'redo'): string[] {
+    const action = direction === 'undo' ? this.log.nextUndo : this.log.nextRedo;
+    return (action?.steps ?? []).flatMap((step) => {
+      const state = direction === 'undo' ? step.after : step.before;
+      const edited = [];
+      if (!sameContent(readOnDisk(step.filePath, true), fromBase64(state.disk))) edited.push(step.filePath);
+      if (step.oldPath && !sameContent(readOnDisk(step.oldPath, true), fromBase64(state.oldDisk))) edited.push(step.oldPath);
+      return edited;
+    });
+  }
+
+  /** True if the next undo (or redo) touches a folder Claude is still writing in */
+  isLocked(direction: 'undo' | 'redo'): boolean {
+    const action = direction === 'undo' ? this.log.nextUndo : this.log.nextRedo;
+    return (action?.steps ?? []).some(s => this.running.has(s.root));
+  }
+
+  /** Reverts the last accept/reject action: disk content and hunk statuses. Returns its label. */
+  undo(): string | undefined {
+    if (this.isLocked('undo')) return undefined;
+    const action = this.log.popUndo();
+    if (!action) return undefined;
+    for (const step of [...action.steps].reverse()) this.applyState(step, step.before);
+    this._onDidChangeDiffs.fire();
+    return action.label;
+  }
+
+  /** Repeats the last undone action. Returns its label. */
+  redo(): string | undefined {
+    if (this.isLocked('redo')) return undefined;
+    const action = this.log.popRedo();
+    if (!action) return undefined;
+    for (const step of action.steps) this.applyState(step, step.after);
+    this._onDidChangeDiffs.fire();
+    return action.label;
+  }
+
+  private fileState(diff: FileDiff): FileState {
+    return {
+      statuses: diff.hunks.map(h => h.status),
+      disk: toBase64(readOnDisk(diff.filePath, true)),
+      oldDisk: diff.oldPath ? toBase64(readOnDisk(diff.oldPath, true)) : undefined,
+      staged: diff.stagedPath ? toBase64(readOnDisk(diff.stagedPath, true)) : undefined,
+    };
+  }
+
+  /**
+   * Puts a file back the way a review step found or left it. After a window
+   * reload the diff itself is gone, so only the disk content comes back.
+   */
+  private applyState(step: ReviewStep, state: FileState) {
+    writeOnDisk(step.filePath, fromBase64(state.disk));
+    if (step.oldPath) writeOnDisk(step.oldPath, fromBase64(state.oldDisk));
+
+    const diff = this.diffs.get(step.filePath);
+    if (!diff) return;
+    diff.hunks.forEach((hunk, i) => hunk.status = state.statuses[i] ?? hunk.status);
+    diff.status = fileStatus(diff);
+    diff.conflict = undefined;
+
+    if (diff.stagedPath) {
+      // The staged copy is deleted once a proposed file is resolved — bring it back with the pending state
+      writeOnDisk(diff.stagedPath, fromBase64(state.staged));
+      if (state.staged !== undefined && step.proposedDir) this.proposedDirs.set(diff.root, step.proposedDir);
+      else this.cleanupProposedDir(diff.root);
     }
   }
 
   clearDiffs() {
     this.diffs.clear();
     this.snapshots.clear();
+    this._onDidChangeDiffs.fire();
   }
 
   hasPendingDiffs(): boolean {
     return this.getPendingDiffs().length > 0;
   }
+}
+
+/**
+ * Decides from content, not extension: a NUL byte in the first 8 KB (git's
+ * rule) or bytes that are not valid UTF-8. The latter keeps Latin-1 and
+ * similar files byte-exact, since they could not survive a UTF-8 round trip.
+ */
+function isBinaryContent(data: Buffer | undefined): boolean {
+  if (!data) return false;
+  if (data.subarray(0, 8000).includes(0)) return true;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(data);
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+function binaryContent(data: Buffer | undefined): BinaryContent | undefined {
+  if (!data) return undefined;
+  return { data, size: data.length, sha256: createHash('sha256').update(data).digest('hex') };
+}
+
+function sameContent(a: string | Buffer | undefined, b: string | Buffer | undefined): boolean {
+  if (a === undefined || b === undefined) return a === b;
+  return Buffer.from(a).equals(Buffer.from(b));
+}
+
+function toBase64(data: string | Buffer | undefined): string | undefined {
+  return data === undefined ? undefined : Buffer.from(data).toString('base64');
+}
+
+function fromBase64(data: string | undefined): Buffer | undefined {
+  return data === undefined ? undefined : Buffer.from(data, 'base64');
+}
+
+function sideBytes(diff: FileDiff, side: 'before' | 'after'): Buffer {
+  return diff.binary ? diff.binary[side]?.data ?? Buffer.alloc(0) : Buffer.from(diff[side]);
+}
+
+/** Share of content two files have in common, 0 to 1, by lines */
+function similarity(deleted: FileDiff, added: FileDiff): number {
+  const a = sideBytes(deleted, 'before');
+  const b = sideBytes(added, 'after');
+  // Empty files have nothing to recognize them by
+  if (a.length === 0 || b.length === 0) return 0;
+  if (a.equals(b)) return 1;
+  if (deleted.binary || added.binary || Math.max(a.length, b.length) > MAX_SIMILARITY_SIZE) return 0;
+
+  let common = 0;
+  for (const part of diffLines(deleted.before, added.after)) {
+    if (!part.added && !part.removed) common += part.value.length;
+  }
+  return (2 * common) / (deleted.before.length + added.after.length);
+}
+
+function fromPosix(p: string): string {
+  return p.split('/').join(path.sep);
+}
+
+function insideRoot(root: string, relativePath: string): boolean {
+  const relative = path.relative(root, path.join(root, relativePath));
+  return relative !== '' && relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+function readOnDisk(filePath: string, binary: boolean): string | Buffer | undefined {
+  if (!fs.existsSync(filePath)) return undefined;
+  return binary ? fs.readFileSync(filePath) : fs.readFileSync(filePath, 'utf8');
+}
+
+/** A file is resolved once all its hunks are; any accepted hunk keeps it accepted */
+function fileStatus(diff: FileDiff): DiffStatus {
+  if (diff.hunks.some(h => h.status === 'pending')) return 'pending';
+  if (diff.hunks.every(h => h.status === 'rejected')) return 'rejected';
+  return 'accepted';
+}
+
+/**
+ * Rebuilds file content from `before` and `after`, taking the new lines of
+ * every hunk that is not rejected and the original lines of those that are.
+ * Works on raw lines (terminators included) so CRLF and a missing final
+ * newline survive the round trip.
+ */
+function buildContent(diff: FileDiff, statusOf = (h: DiffHunk) => h.status): string {
+  const oldLines = splitLines(diff.before);
+  const newLines = splitLines(diff.after);
+  const out: string[] = [];
+  let oldPos = 0;
+
+  for (const hunk of diff.hunks) {
+    const oldIdx = hunk.oldStart - 1;
+    const newIdx = hunk.newStart - 1;
+    out.push(...oldLines.slice(oldPos, oldIdx));
+    if (statusOf(hunk) === 'rejected') {
+      out.push(...oldLines.slice(oldIdx, oldIdx + hunk.oldLines));
+    } else {
+      out.push(...newLines.slice(newIdx, newIdx + hunk.newLines));
+    }
+    oldPos = oldIdx + hunk.oldLines;
+  }
+  out.push(...oldLines.slice(oldPos));
+  return out.join('');
+}
+
+export function formatHunkHeader(oldStart: number, oldLines: number, newStart: number, newLines: number): string {
+  // Unified diff convention: an empty range points at the line before it
+  const os = oldLines === 0 ? oldStart - 1 : oldStart;
+  const ns = newLines === 0 ? newStart - 1 : newStart;
+  return `@@ -${os},${oldLines} +${ns},${newLines} @@`;
+}
+
+/**
+ * What the workspace should hold for `diff` (undefined → no file), given
+ * its hunk statuses — or, with `hunks`/`status`, as if those hunks were
+ * resolved that way.
+ *
+ * Auto/ask mode: Claude's version is on disk, with rejected hunks reverted.
+ * Propose mode: the original stays on disk until every hunk is resolved;
+ * then the accepted hunks are applied.
+ */
+function expectedOnDisk(diff: FileDiff, hunks: DiffHunk[] = [], status?: DiffStatus): string | Buffer | undefined {
+  const statusOf = (h: DiffHunk) => (status && hunks.includes(h) ? status : h.status);
+  const statuses = diff.hunks.map(statusOf);
+  const proposeUnapplied = diff.mode === 'propose'
+    && (statuses.includes('pending') || !statuses.includes('accepted'));
+
+  // A move that is not (yet) applied leaves the file at its old path
+  if (diff.oldPath && (proposeUnapplied || statuses.every(s => s === 'rejected'))) return undefined;
+
+  if (diff.binary) {
+    const side = proposeUnapplied || statuses[0] === 'rejected' ? diff.binary.before : diff.binary.after;
+    return side?.data;
+  }
+  if (proposeUnapplied) {
+    return diff.isNew ? undefined : diff.before;
+  }
+
+  const content = buildContent(diff, statusOf);
+  // A new file with every hunk rejected, or a deletion not rejected, leaves no
+  // file — an empty file that is kept is still there
+  if (content === '' && diff.isNew && statuses.every(s => s === 'rejected')) return undefined;
+  if (content === '' && diff.isDeleted && !statuses.includes('rejected')) return undefined;
+  return content;
+}
+
+/** What the old path of a moved file should hold — the original, unless the move stands */
+function expectedAtOldPath(diff: FileDiff, hunks: DiffHunk[] = [], status?: DiffStatus): string | Buffer | undefined {
+  const moved = expectedOnDisk(diff, hunks, status) !== undefined;
+  return moved ? undefined : diff.binary?.before?.data ?? diff.before;
+}
+
+/** True if a manifest change was staged against other content than its original holds now */
+function baseChanged(diff: FileDiff): boolean {
+  if (diff.staleBase) return true;
+  if (!diff.baseSha256) return false;
+  const basePath = diff.oldPath ?? diff.filePath;
+  if (!fs.existsSync(basePath)) return true;
+  return createHash('sha256').update(fs.readFileSync(basePath)).digest('hex') !== diff.baseSha256.toLowerCase();
+}
+
+/** Sets the file mode a manifest asked for once its change is accepted, or puts the old one back */
+function applyFileMode(diff: FileDiff, content: string | Buffer | undefined, accepted: boolean) {
+  const mode = accepted ? diff.fileMode : diff.oldFileMode;
+  if (!mode || content === undefined) return;
+  try {
+    fs.chmodSync(diff.filePath, parseInt(mode, 8) & 0o777);
+  } catch (e) {
+    console.warn(`[ClaudeDiff] Could not set mode ${mode} on ${diff.filePath}:`, e);
+  }
+}
+
+/** Records the mode a change sets, and the one it replaces; a chmod alone gets a hunk header saying so */
+function setFileMode(diff: FileDiff, mode: string | undefined, oldMode: string | undefined) {
+  diff.fileMode = mode;
+  if (!mode || !oldMode) return;
+  diff.oldFileMode = oldMode;
+  if (diff.before === diff.after && !diff.binary && !diff.oldPath) diff.hunks[0].header = `Mode ${oldMode} → ${mode}`;
+}
+
+/** The git-style mode of a file as it is now, e.g. "100664" */
+function modeOf(filePath: string): string | undefined {
+  try {
+    return `100${(fs.statSync(filePath).mode & 0o777).toString(8).padStart(3, '0')}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/** What git records of a mode: executable or not */
+export function gitMode(mode: string): string {
+  return parseInt(mode, 8) & 0o111 ? '100755' : '100644';
+}
 
-  private isTextFile(fp: string): boolean {
-    const textExts = new Set([
-      '.ts', '.tsx', '.js', '.jsx', '.json', '.md', '.txt', '.css', '.scss',
-      '.html', '.xml', '.yaml', '.yml', '.py', '.go', '.rs', '.java', '.c',
-      '.cpp', '.h', '.sh', '.env', '.toml', '.ini', '.sql',
-    ]);
-    return textExts.has(path.extname(fp).toLowerCase());
+function writeOnDisk(filePath: string, content: string | Buffer | undefined) {
+  if (content === undefined) {
+    if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+    return;
   }
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
 }
@@ -1,6 +1,13 @@
 import * as vscode from 'vscode';
-import { DiffManager, FileDiff } from './diffManager';
+import * as path from 'path';
+import { diffWordsWithSpace } from 'diff';
+import { BinaryContent, DiffManager, DiffHunk, FileDiff } from './diffManager';
 import { ClaudeModeManager } from './claudeModeManager';
+import { ClaudeScm } from './claudeScm';
+import { SessionHistory, SessionRecord } from './sessionHistory';
+import { hasFeedback } from './reviewFeedback';
+
+export type DiffLayout = 'unified' | 'split';
 
 export class DiffPanel {
   static currentPanel: DiffPanel | undefined;
@@ -8,9 +15,10 @@ export class DiffPanel {
   private _disposables: vscode.Disposable[] = [];
 
   static createOrShow(
-    extensionUri: vscode.Uri,
+    context: vscode.ExtensionContext,
     diffManager: DiffManager,
     modeManager: ClaudeModeManager,
+    sessionHistory: SessionHistory,
   ) {
     const column = vscode.window.activeTextEditor
       ? vscode.ViewColumn.Beside
@@ -29,22 +37,27 @@ export class DiffPanel {
       {
         enableScripts: true,
         retainContextWhenHidden: true,
-        localResourceRoots: [extensionUri],
+        localResourceRoots: [context.extensionUri],
       }
     );
 
-    DiffPanel.currentPanel = new DiffPanel(panel, diffManager, modeManager);
+    DiffPanel.currentPanel = new DiffPanel(panel, context, diffManager, modeManager, sessionHistory);
   }
 
   private constructor(
     panel: vscode.WebviewPanel,
+    private context: vscode.ExtensionContext,
     private diffManager: DiffManager,
     private modeManager: ClaudeModeManager,
+    private sessionHistory: SessionHistory,
   ) {
     this._panel = panel;
     this._update();
 
     this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+    this.diffManager.onDidChangeDiffs(() => this._update(), null, this._disposables);
+    // A recorded run may be the follow-up to earlier feedback
+    this.sessionHistory.onDidRecord(() => this._update(), null, this._disposables);
 
     this._panel.webview.onDidReceiveMessage(
       async (msg) => {
@@ -57,6 +70,25 @@ export class DiffPanel {
             this.diffManager.rejectFile(msg.filePath);
             this._update();
             break;
+          case 'revertFile':
+            this.diffManager.revertFile(msg.filePath);
+            this._update();
+            break;
+          case 'resolveConflict':
+            this.diffManager.resolveConflict(msg.filePath, msg.choice);
+            if (msg.choice === 'markers') {
+              vscode.commands.executeCommand('vscode.open', vscode.Uri.file(msg.filePath));
+            }
+            this._update();
+            break;
+          case 'acceptHunk':
+            this.diffManager.acceptHunk(msg.filePath, msg.hunkIndex);
+            this._update();
+            break;
+          case 'rejectHunk':
+            this.diffManager.rejectHunk(msg.filePath, msg.hunkIndex);
+            this._update();
+            break;
           case 'acceptAll':
             this.diffManager.acceptAll();
             this._update();
@@ -65,6 +97,19 @@ export class DiffPanel {
             this.diffManager.rejectAll();
             this._update();
             break;
+          case 'undo':
+            await vscode.commands.executeCommand('claudediff.undo');
+            break;
+          case 'setComment':
+            this.diffManager.setComment(msg.filePath, msg.hunkIndex ?? undefined, msg.text);
+            break;
+          case 'sendFeedback':
+            await vscode.commands.executeCommand('claudediff.sendFeedback');
+            break;
+          case 'toggleLayout':
+            await this.context.globalState.update('diffLayout', this.layout === 'split' ? 'unified' : 'split');
+            this._update();
+            break;
           case 'switchMode':
             await this.modeManager.promptSwitchMode();
             this._update();
@@ -95,6 +140,11 @@ export class DiffPanel {
     this._update();
   }
 
+  /** Unified or side-by-side, remembered across sessions */
+  private get layout(): DiffLayout {
+    return this.context.globalState.get<DiffLayout>('diffLayout') ?? 'unified';
+  }
+
   private async _openNativeDiff(diff: FileDiff) {
     // Use VS Code's built-in diff editor for line-level review
     const scheme = 'claude-before';
@@ -103,7 +153,13 @@ export class DiffPanel {
     };
     const reg = vscode.workspace.registerTextDocumentContentProvider(scheme, provider);
     const beforeUri = vscode.Uri.parse(`${scheme}:${diff.relativePath}`);
-    const afterUri = vscode.Uri.file(diff.filePath);
+    // In propose mode the workspace file is still the original; show the staged copy,
+    // or for an imported patch, which has none, the new side kept in memory
+    const afterUri = diff.stagedPath
+      ? vscode.Uri.file(diff.stagedPath)
+      : diff.mode === 'propose'
+        ? vscode.Uri.file(diff.filePath).with({ scheme: ClaudeScm.scheme, query: 'after' })
+        : vscode.Uri.file(diff.filePath);
     await vscode.commands.executeCommand('vscode.diff', beforeUri, afterUri, `Claude: ${diff.relativePath}`);
     reg.dispose();
   }
@@ -111,7 +167,24 @@ export class DiffPanel {
   private _update() {
     const diffs = this.diffManager.getAllDiffs();
     const mode = this.modeManager.currentMode;
-    this._panel.webview.html = getWebviewContent(diffs, mode);
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const running = folders.map(f => f.uri.fsPath).filter(root => this.diffManager.isRunningIn(root));
+    // Per folder, the review whose feedback the current changes answer
+    const followUps = new Map(folders.flatMap((f) => {
+      const earlier = this.sessionHistory.followUpTo(f.uri.fsPath);
+      return earlier ? [[f.uri.fsPath, earlier] as const] : [];
+    }));
+    // Only label folders when there is more than one to tell apart
+    const folderNames = folders.length > 1
+      ? new Map(folders.map(f => [f.uri.fsPath, f.name]))
+      : undefined;
+    // highlight.js runs inside the webview; it ships with the extension
+    const highlighter = this._panel.webview.asWebviewUri(vscode.Uri.joinPath(
+      this.context.extensionUri, 'node_modules', '@highlightjs', 'cdn-assets', 'highlight.min.js',
+    ));
+    this._panel.webview.html = getWebviewContent(
+      diffs, mode, this.layout, highlighter.toString(), running, this.diffManager.undoLabel, followUps, folderNames,
+    );
   }
 
   dispose() {
@@ -123,10 +196,58 @@ export class DiffPanel {
   }
 }
 
-function getWebviewContent(diffs: FileDiff[], mode: string): string {
+// Lines rendered per file before the rest is cut off — huge diffs would freeze the webview
+const MAX_RENDERED_LINES = 2000;
+
+// A hunk body line with its line number and HTML (escaped, word changes marked)
+interface RenderedLine {
+  no: number;
+  html: string;
+}
+
+// Hunk lines grouped for rendering: a changed block keeps its removed and
+// added lines apart so the unified view can list them and the split view
+// can pair them up row by row
+type LineBlock =
+  | { kind: 'context'; old: RenderedLine; new: RenderedLine }
+  | { kind: 'change'; removed: RenderedLine[]; added: RenderedLine[] }
+  | { kind: 'note'; text: string };
+
+// Word highlighting is skipped for lines longer than this, or sharing less than this fraction
+const MAX_WORD_DIFF_LENGTH = 1000;
+const MIN_WORD_DIFF_OVERLAP = 0.3;
+
+// Files up to this size ship their full text to the webview so highlighting
+// sees the whole file; bigger ones are highlighted line by line
+const MAX_HIGHLIGHT_SOURCE = 256 * 1024;
+
+/** highlight.js language for a path, or undefined when there is no sensible guess */
+function languageFor(relativePath: string): string | undefined {
+  const name = path.basename(relativePath).toLowerCase();
+  if (name === 'makefile' || name === 'gnumakefile') return 'makefile';
+  const ext = path.extname(name).slice(1);
+  if (['vue', 'svelte', 'html', 'htm', 'xhtml', 'svg'].includes(ext)) return 'xml';
+  return ext || undefined;
+}
+
+function getWebviewContent(
+  diffs: FileDiff[],
+  mode: string,
+  layout: DiffLayout,
+  highlighterUri: string,
+  runningRoots: string[],
+  undoLabel: string | undefined,
+  followUps: Map<string, SessionRecord>,
+  folderNames?: Map<string, string>,
+): string {
+  const running = runningRoots.length > 0;
+  const isLocked = (diff: FileDiff) => runningRoots.includes(diff.root);
   const pending = diffs.filter(d => d.status === 'pending');
-  const accepted = diffs.filter(d => d.status === 'accepted');
+  const accepted = diffs.filter(d => d.status === 'accepted' && !d.autoAccepted);
+  const autoAccepted = diffs.filter(d => d.status === 'accepted' && d.autoAccepted);
   const rejected = diffs.filter(d => d.status === 'rejected');
+  const feedback = diffs.some(hasFeedback);
+  let commentCount = 0; // ids tying each comment button to its box
 
   const modeLabel: Record<string, string> = {
     auto: '⚡ Auto Edit',
@@ -302,6 +423,18 @@ function getWebviewContent(diffs: FileDiff[], mode: string): string {
     color: #fff;
   }
   .bulk-btn.accept-all:hover { opacity: 0.85; }
+  .bulk-btn.undo {
+    background: transparent;
+    border-color: var(--border);
+    color: var(--text-muted);
+  }
+  .bulk-btn.undo:hover { color: var(--text); border-color: var(--accent); }
+  .bulk-btn.feedback {
+    background: transparent;
+    border-color: var(--accent);
+    color: var(--accent);
+  }
+  .bulk-btn.feedback:hover { background: var(--accent-dim); }
 
   /* Main content */
   .content {
@@ -329,6 +462,18 @@ function getWebviewContent(diffs: FileDiff[], mode: string): string {
     background: var(--border);
   }
 
+  .auto-accepted > summary { cursor: pointer; list-style: none; }
+  .auto-accepted > summary::-webkit-details-marker { display: none; }
+  .auto-accepted > summary::before { content: '▸'; }
+  .auto-accepted[open] > summary::before { content: '▾'; }
+
+  .folder-label {
+    font-size: 11px;
+    font-weight: 600;
+    color: var(--text);
+    margin: 12px 0 8px;
+  }
+
   /* Empty state */
   .empty-state {
     text-align: center;
@@ -350,6 +495,7 @@ function getWebviewContent(diffs: FileDiff[], mode: string): string {
   .file-card:hover { border-color: #3a4060; }
   .file-card.accepted { border-color: var(--green-border); opacity: 0.7; }
   .file-card.rejected { border-color: var(--red-border); opacity: 0.5; }
+  .file-card.live { border-color: var(--accent-dim); }
 
   .file-header {
     display: flex;
@@ -389,6 +535,13 @@ function getWebviewContent(diffs: FileDiff[], mode: string): string {
   }
   .badge.new { background: #4f8fff30; color: var(--accent); border: 1px solid var(--accent); }
   .badge.del { background: var(--red); color: var(--red-text); border: 1px solid var(--red-border); }
+  .badge.mode { color: var(--text-muted); border: 1px solid var(--border); font-family: var(--mono); }
+  .badge.moved { background: var(--yellow); color: var(--yellow-text); border: 1px solid var(--yellow-text); }
+  .badge.policy-auto { color: var(--green-text); border: 1px solid var(--green-border); }
+  .badge.policy-propose { color: var(--accent); border: 1px solid var(--accent); }
+  .badge.policy-block { color: var(--red-text); border: 1px solid var(--red-border); }
+  .badge.change-class { color: var(--text-muted); border: 1px solid var(--border); }
+  .file-name .arrow { color: var(--text-muted); }
 
   .status-tag {
     padding: 2px 8px;
@@ -398,6 +551,28 @@ function getWebviewContent(diffs: FileDiff[], mode: string): string {
   }
   .status-tag.accepted { background: var(--green); color: var(--green-text); }
   .status-tag.rejected { background: var(--red); color: var(--red-text); }
+  .status-tag.writing { background: #4f8fff20; color: var(--accent); }
+
+  /* Live run indicator */
+  .live-indicator {
+    display: flex;
+    align-items: center;
+    gap: 8px;
+    font-size: 12px;
+    font-weight: 600;
+    color: var(--accent);
+  }
+  .live-dot {
+    width: 8px;
+    height: 8px;
+    border-radius: 50%;
+    background: var(--accent);
+    animation: pulse 1.2s ease-in-out infinite;
+  }
+  @keyframes pulse {
+    0%, 100% { opacity: 1; }
+    50% { opacity: 0.3; }
+  }
 
   .file-actions {
     display: flex;
@@ -434,6 +609,73 @@ function getWebviewContent(diffs: FileDiff[], mode: string): string {
   }
   .btn-reject:hover { background: var(--red); }
 
+  .conflict-banner {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    gap: 12px;
+    padding: 8px 14px;
+    background: var(--yellow);
+    color: var(--yellow-text);
+    border-bottom: 1px solid #ffd60a40;
+    font-size: 12px;
+  }
+  .conflict-actions {
+    display: flex;
+    gap: 6px;
+    flex-shrink: 0;
+  }
+
+  /* Review comments */
+  .comment {
+    padding: 8px 14px;
+    border-bottom: 1px solid var(--border);
+    background: var(--surface2);
+    font-size: 12px;
+  }
+  .hunk-block .comment { margin: 4px 0; border: 1px solid var(--border); border-radius: 6px; font-family: var(--sans); }
+  .comment[hidden], .comment [hidden] { display: none; }
+  .comment-view { display: flex; align-items: flex-start; gap: 8px; }
+  .comment-text { flex: 1; white-space: pre-wrap; }
+  .comment textarea {
+    width: 100%;
+    min-height: 56px;
+    padding: 6px 8px;
+    margin-bottom: 6px;
+    background: var(--bg);
+    color: var(--text);
+    border: 1px solid var(--border);
+    border-radius: 5px;
+    font-family: var(--sans);
+    font-size: 12px;
+    resize: vertical;
+  }
+  .comment textarea:focus { outline: none; border-color: var(--accent); }
+  .comment-buttons { display: flex; justify-content: flex-end; gap: 6px; }
+  .earlier-comment {
+    padding: 6px 14px;
+    border-bottom: 1px solid var(--border);
+    color: var(--text-muted);
+    font-size: 12px;
+    white-space: pre-wrap;
+  }
+  .earlier-comment .hunk-range { font-family: var(--mono); font-size: 11px; }
+
+  /* Follow-up to sent feedback */
+  .follow-up {
+    background: var(--surface);
+    border: 1px solid var(--accent-dim);
+    border-radius: 8px;
+    padding: 12px 16px;
+    margin-bottom: 20px;
+    font-size: 12px;
+    color: var(--text-muted);
+  }
+  .follow-up strong { color: var(--text); }
+  .follow-up ul { list-style: none; margin-top: 6px; }
+  .follow-up .changed { color: var(--green-text); }
+  .follow-up .untouched { color: var(--yellow-text); }
+
   /* Diff display */
   .diff-body {
     overflow-x: auto;
@@ -477,8 +719,80 @@ function getWebviewContent(diffs: FileDiff[], mode: string): string {
     background: #4f8fff10;
     padding: 2px 16px;
     font-size: 11px;
-    opacity: 0.8;
+    align-items: center;
+    justify-content: space-between;
+    gap: 12px;
+  }
+  .line.hunk .hunk-range { opacity: 0.8; }
+  .line.truncated {
+    color: var(--text-muted);
+    font-style: italic;
+    padding: 4px 16px;
+  }
+  .word-removed { background: #f4433660; border-radius: 2px; }
+  .word-added { background: #2ea84390; border-radius: 2px; }
+  ::highlight(word-removed) { background-color: var(--vscode-diffEditor-removedTextBackground, #f4433660); }
+  ::highlight(word-added) { background-color: var(--vscode-diffEditor-insertedTextBackground, #2ea84390); }
+
+  /* Syntax highlighting — token colors and the background they sit on come from the active VS Code theme */
+  .file-card[data-lang] .diff-body { background: var(--vscode-editor-background, var(--surface)); }
+  .file-card[data-lang] .code { color: var(--vscode-editor-foreground, var(--text)); }
+  .file-card[data-lang] .line.added,
+  .file-card[data-lang] .split-row .cell.added { background: var(--vscode-diffEditor-insertedLineBackground, var(--green)); }
+  .file-card[data-lang] .line.removed,
+  .file-card[data-lang] .split-row .cell.removed { background: var(--vscode-diffEditor-removedLineBackground, var(--red)); }
+  .file-card[data-lang] .split-row .cell.empty { background: var(--vscode-diffEditor-diagonalFill, var(--surface2)); }
+  .hljs-keyword, .hljs-selector-tag, .hljs-doctag, .hljs-tag { color: var(--vscode-symbolIcon-keywordForeground, #c586c0); }
+  .hljs-string, .hljs-regexp, .hljs-template-string, .hljs-symbol { color: var(--vscode-debugTokenExpression-string, #ce9178); }
+  .hljs-number, .hljs-literal { color: var(--vscode-debugTokenExpression-number, #b5cea8); }
+  .hljs-comment, .hljs-quote { color: var(--vscode-descriptionForeground, #6a9955); font-style: italic; }
+  .hljs-title.function_, .hljs-title.function_.invoke__ { color: var(--vscode-symbolIcon-functionForeground, #dcdcaa); }
+  .hljs-title, .hljs-title.class_, .hljs-type, .hljs-built_in { color: var(--vscode-symbolIcon-classForeground, #4ec9b0); }
+  .hljs-variable, .hljs-params, .hljs-template-variable { color: var(--vscode-symbolIcon-variableForeground, #9cdcfe); }
+  .hljs-attr, .hljs-attribute, .hljs-property, .hljs-name { color: var(--vscode-symbolIcon-propertyForeground, #9cdcfe); }
+  .hljs-meta, .hljs-selector-id, .hljs-selector-class { color: var(--vscode-symbolIcon-constantForeground, #4fc1ff); }
+  .hljs-deletion { color: var(--red-text); }
+  .hljs-addition { color: var(--green-text); }
+
+  /* Side-by-side layout */
+  .split-row {
+    display: grid;
+    grid-template-columns: 44px 1fr 44px 1fr;
+  }
+  .split-row .ln {
+    padding: 0 8px;
+    text-align: right;
+    color: var(--text-muted);
+    opacity: 0.6;
+    user-select: none;
+  }
+  .split-row .cell {
+    min-width: 0;
+    padding: 0 8px;
+    white-space: pre-wrap;
+    word-break: break-all;
+  }
+  .split-row .cell.context { color: var(--text-muted); }
+  .split-row .cell.removed { background: var(--red); color: var(--red-text); }
+  .split-row .cell.added { background: var(--green); color: var(--green-text); }
+  .split-row .cell.empty { background: var(--surface2); }
+  .split-row.note {
+    display: block;
+    padding: 0 16px;
+    color: var(--text-muted);
+  }
+
+  .hunk-actions {
+    display: flex;
+    gap: 6px;
+    font-family: var(--sans);
   }
+  .btn-hunk {
+    padding: 1px 8px;
+    font-size: 10px;
+  }
+  .hunk-block.accepted { opacity: 0.7; }
+  .hunk-block.rejected { opacity: 0.5; }
 
   /* Mode info box */
   .mode-info {
@@ -511,15 +825,22 @@ function getWebviewContent(diffs: FileDiff[], mode: string): string {
     <span class="logo">Claude Diff</span>
     <div class="stats">
       ${pending.length > 0 ? `<span class="stat-chip pending">${pending.length} pending</span>` : ''}
-      ${accepted.length > 0 ? `<span class="stat-chip accepted">${accepted.length} accepted</span>` : ''}
+      ${accepted.length + autoAccepted.length > 0 ? `<span class="stat-chip accepted">${accepted.length + autoAccepted.length} accepted</span>` : ''}
       ${rejected.length > 0 ? `<span class="stat-chip rejected">${rejected.length} rejected</span>` : ''}
     </div>
     <button class="mode-badge" onclick="switchMode()">${modeLabel[mode] || mode}</button>
+    <button class="mode-badge" onclick="toggleLayout()" title="Switch diff layout">${layout === 'split' ? '☰ Unified' : '⫼ Side by Side'}</button>
   </div>
-  ${pending.length > 0 ? `
+  ${running ? `
+  <div class="topbar-right">
+    <span class="live-indicator"><span class="live-dot"></span>Claude is still writing…</span>
+  </div>` : pending.length > 0 || undoLabel || feedback ? `
   <div class="topbar-right">
+    ${undoLabel ? `<button class="bulk-btn undo" onclick="undo()" title="Undo &quot;${esc(undoLabel)}&quot;">↶ Undo</button>` : ''}
+    ${feedback ? '<button class="bulk-btn feedback" onclick="sendFeedback()" title="Send your comments and rejected changes to Claude">✉ Send Feedback</button>' : ''}
+    ${pending.length > 0 ? `
     <button class="bulk-btn reject-all" onclick="rejectAll()">✕ Reject All</button>
-    <button class="bulk-btn accept-all" onclick="acceptAll()">✓ Accept All</button>
+    <button class="bulk-btn accept-all" onclick="acceptAll()">✓ Accept All</button>` : ''}
   </div>` : ''}
 </div>
 
@@ -528,33 +849,189 @@ function getWebviewContent(diffs: FileDiff[], mode: string): string {
   ${diffs.length === 0 ? `
   <div class="empty-state">
     <div class="empty-icon">🤖</div>
-    <div class="empty-title">No changes yet</div>
-    <p>Run Claude Code to see proposed changes here.</p>
+    <div class="empty-title">${running ? 'Claude is working…' : 'No changes yet'}</div>
+    <p>${running ? 'Changed files will appear here as Claude writes them.' : 'Run Claude Code to see proposed changes here.'}</p>
   </div>
   ` : ''}
 
   ${getModeInfoHtml(mode)}
 
+  ${[...followUps].map(([root, earlier]) => renderFollowUp(root, earlier)).join('')}
+
   ${pending.length > 0 ? `<div class="section-label">Pending Review (${pending.length})</div>` : ''}
-  ${pending.map(renderDiff).join('')}
+  ${renderGroup(pending)}
 
   ${accepted.length > 0 ? `<div class="section-label">Accepted (${accepted.length})</div>` : ''}
-  ${accepted.map(renderDiff).join('')}
+  ${renderGroup(accepted)}
 
   ${rejected.length > 0 ? `<div class="section-label">Rejected (${rejected.length})</div>` : ''}
-  ${rejected.map(renderDiff).join('')}
+  ${renderGroup(rejected)}
+
+  ${autoAccepted.length > 0 ? `
+  <details class="auto-accepted" id="auto-accepted">
+    <summary class="section-label" title="Accepted by a path policy or claudediff.autoAccept — revert any you want back">Auto-accepted (${autoAccepted.length})</summary>
+    ${renderGroup(autoAccepted)}
+  </details>` : ''}
 
 </div>
 
+<script src="${highlighterUri}"></script>
 <script>
   const vscode = acquireVsCodeApi();
 
   function acceptFile(fp) { vscode.postMessage({ command: 'acceptFile', filePath: fp }); }
   function rejectFile(fp) { vscode.postMessage({ command: 'rejectFile', filePath: fp }); }
+  function revertFile(fp) { vscode.postMessage({ command: 'revertFile', filePath: fp }); }
+  function acceptHunk(fp, i) { vscode.postMessage({ command: 'acceptHunk', filePath: fp, hunkIndex: i }); }
+  function resolveConflict(fp, choice) { vscode.postMessage({ command: 'resolveConflict', filePath: fp, choice }); }
+  function rejectHunk(fp, i) { vscode.postMessage({ command: 'rejectHunk', filePath: fp, hunkIndex: i }); }
   function acceptAll()    { vscode.postMessage({ command: 'acceptAll' }); }
   function rejectAll()    { vscode.postMessage({ command: 'rejectAll' }); }
+  function undo()         { vscode.postMessage({ command: 'undo' }); }
+  function sendFeedback() { vscode.postMessage({ command: 'sendFeedback' }); }
+
+  function editComment(id) {
+    const box = document.getElementById(id);
+    box.hidden = false;
+    box.querySelector('.comment-view').hidden = true;
+    box.querySelector('.comment-edit').hidden = false;
+    box.querySelector('textarea').focus();
+  }
+  function cancelComment(id) {
+    const box = document.getElementById(id);
+    const text = box.querySelector('.comment-text').textContent;
+    box.querySelector('textarea').value = text;
+    box.querySelector('.comment-edit').hidden = true;
+    box.querySelector('.comment-view').hidden = !text;
+    box.hidden = !text;
+  }
+  function saveComment(id, fp, i) {
+    const text = document.getElementById(id).querySelector('textarea').value;
+    vscode.postMessage({ command: 'setComment', filePath: fp, hunkIndex: i, text });
+  }
   function switchMode()   { vscode.postMessage({ command: 'switchMode' }); }
+  function toggleLayout() { vscode.postMessage({ command: 'toggleLayout' }); }
   function openDiff(fp)   { vscode.postMessage({ command: 'openDiff', filePath: fp }); }
+  // The path of the file card a button is in — kept in an attribute, never in the handler's source
+  function fileOf(el)     { return el.closest('.file-card').dataset.file; }
+
+  // The auto-accepted section stays open or closed across re-renders
+  (function rememberAutoAccepted() {
+    const section = document.getElementById('auto-accepted');
+    if (!section) return;
+    section.open = !!(vscode.getState() || {}).autoAcceptedOpen;
+    section.addEventListener('toggle', function () {
+      vscode.setState(Object.assign({}, vscode.getState(), { autoAcceptedOpen: section.open }));
+    });
+  })();
+
+  // Syntax highlighting. Each side of a file is highlighted as a whole, so a
+  // comment or string opened above a hunk still colors the lines inside it.
+  // Word marks from the server are re-applied as CSS highlights on top.
+  (function highlightCode() {
+    if (typeof hljs === 'undefined') return;
+    const canMark = !!(window.CSS && CSS.highlights && typeof Highlight !== 'undefined');
+    const marks = { 'word-removed': [], 'word-added': [] };
+
+    document.querySelectorAll('.file-card[data-lang]').forEach(function (card) {
+      const lang = card.dataset.lang;
+      if (!hljs.getLanguage(lang)) return;
+      const source = card.querySelector('script.source');
+      const text = source ? JSON.parse(source.textContent) : {};
+      const sides = {};
+
+      card.querySelectorAll('.code').forEach(function (el) {
+        const side = el.dataset.side;
+        if (!(side in sides)) {
+          sides[side] = typeof text[side] === 'string' ? splitLines(highlight(text[side], lang)) : null;
+        }
+        let html = sides[side] ? sides[side][Number(el.dataset.no) - 1] : undefined;
+        // Fall back to the line alone if the full text does not line up with it
+        if (html === undefined || textOf(html) !== el.textContent) html = highlight(el.textContent, lang);
+
+        const words = wordRanges(el);
+        if (words.length > 0 && !canMark) return; // keep the word marks rather than the colors
+        el.innerHTML = html;
+        words.forEach(function (w) {
+          const range = rangeAt(el, w.start, w.end);
+          if (range) marks[w.cls].push(range);
+        });
+      });
+    });
+
+    if (canMark) {
+      Object.keys(marks).forEach(function (cls) { CSS.highlights.set(cls, new Highlight(...marks[cls])); });
+    }
+  })();
+
+  function highlight(text, lang) {
+    return hljs.highlight(text, { language: lang, ignoreIllegals: true }).value;
+  }
+
+  /** Splits highlighted HTML into lines, closing and reopening spans that cross a newline */
+  function splitLines(html) {
+    const lines = [];
+    const open = [];
+    const tags = /<span[^>]*>|<\\/span>|\\n/g;
+    let line = '';
+    let last = 0;
+    let match;
+    while ((match = tags.exec(html))) {
+      line += html.slice(last, match.index);
+      last = tags.lastIndex;
+      if (match[0] === '\\n') {
+        lines.push(line + '</span>'.repeat(open.length));
+        line = open.join('');
+      } else {
+        if (match[0] === '</span>') open.pop();
+        else open.push(match[0]);
+        line += match[0];
+      }
+    }
+    lines.push(line + html.slice(last) + '</span>'.repeat(open.length));
+    return lines;
+  }
+
+  function textOf(html) {
+    const div = document.createElement('div');
+    div.innerHTML = html;
+    return div.textContent;
+  }
+
+  /** Character ranges of the server's word marks in a line */
+  function wordRanges(el) {
+    const ranges = [];
+    let offset = 0;
+    el.childNodes.forEach(function (node) {
+      const length = node.textContent.length;
+      if (node.nodeType === 1 && (node.classList.contains('word-removed') || node.classList.contains('word-added'))) {
+        ranges.push({ start: offset, end: offset + length, cls: node.className });
+      }
+      offset += length;
+    });
+    return ranges;
+  }
+
+  function rangeAt(el, start, end) {
+    const walker = document.createTreeWalker(el, NodeFilter.SHOW_TEXT);
+    const range = document.createRange();
+    let offset = 0;
+    let started = false;
+    let node;
+    while ((node = walker.nextNode())) {
+      const length = node.textContent.length;
+      if (!started && start <= offset + length) {
+        range.setStart(node, start - offset);
+        started = true;
+      }
+      if (started && end <= offset + length) {
+        range.setEnd(node, end - offset);
+        return range;
+      }
+      offset += length;
+    }
+    return undefined;
+  }
 </script>
 </body>
 </html>`;
@@ -578,40 +1055,277 @@ function getWebviewContent(diffs: FileDiff[], mode: string): string {
     return '';
   }
 
-  function renderDiff(diff: FileDiff): string {
-    const lines = diff.patch.split('\n').slice(4);
-    const rendered = lines.map(line => {
-      if (line.startsWith('+') && !line.startsWith('+++')) {
-        return `<div class="line added"><span class="sign">+</span>${esc(line.slice(1))}</div>`;
-      } else if (line.startsWith('-') && !line.startsWith('---')) {
-        return `<div class="line removed"><span class="sign">-</span>${esc(line.slice(1))}</div>`;
-      } else if (line.startsWith('@@')) {
-        return `<div class="line hunk">${esc(line)}</div>`;
+  /** Cards for one section, under a label per workspace folder in multi-root workspaces */
+  function renderGroup(list: FileDiff[]): string {
+    if (!folderNames) return list.map(renderDiff).join('');
+    const roots = [...new Set(list.map(d => d.root))];
+    return roots.map(root => `
+      <div class="folder-label">📁 ${esc(folderNames.get(root) ?? root)}</div>
+      ${list.filter(d => d.root === root).map(renderDiff).join('')}
+    `).join('');
+  }
+
+  function renderConflict(diff: FileDiff): string {
+    const conflict = diff.conflict!;
+    const action = conflict.status === 'accepted' ? 'accepting' : 'rejecting';
+    return `
+        <div class="conflict-banner">
+          <span>⚠ This file was edited after Claude changed it — ${action} conflicts with your edits in ${conflict.count} place${conflict.count === 1 ? '' : 's'}.</span>
+          <span class="conflict-actions">
+            <button class="btn btn-open" onclick="resolveConflict(fileOf(this), 'cancel')">Cancel</button>
+            <button class="btn btn-reject" onclick="resolveConflict(fileOf(this), 'overwrite')">Overwrite My Edits</button>
+            ${conflict.merged !== undefined ? `<button class="btn btn-accept" onclick="resolveConflict(fileOf(this), 'markers')">Resolve in Editor</button>` : ''}
+          </span>
+        </div>`;
+  }
+
+  /** Groups a hunk's lines into context and changed blocks, marking changed words in paired lines */
+  function toBlocks(hunk: DiffHunk): LineBlock[] {
+    const blocks: LineBlock[] = [];
+    let oldNo = hunk.oldStart;
+    let newNo = hunk.newStart;
+    let removed: { no: number; text: string }[] = [];
+    let added: { no: number; text: string }[] = [];
+    let notes: string[] = [];
+
+    const flush = () => {
+      if (removed.length + added.length > 0) {
+        const block = {
+          kind: 'change' as const,
+          removed: removed.map(l => ({ no: l.no, html: esc(l.text) })),
+          added: added.map(l => ({ no: l.no, html: esc(l.text) })),
+        };
+        // The i-th removed line is paired with the i-th added one
+        for (let i = 0; i < Math.min(removed.length, added.length); i++) {
+          const words = highlightWords(removed[i].text, added[i].text);
+          if (words) [block.removed[i].html, block.added[i].html] = words;
+        }
+        blocks.push(block);
+      }
+      blocks.push(...notes.map(text => ({ kind: 'note' as const, text })));
+      removed = [];
+      added = [];
+      notes = [];
+    };
+
+    for (const line of hunk.lines) {
+      const text = line.slice(1);
+      if (line.startsWith('-')) {
+        removed.push({ no: oldNo++, text });
+      } else if (line.startsWith('+')) {
+        added.push({ no: newNo++, text });
+      } else if (line.startsWith('\\')) {
+        // "\ No newline at end of file" — kept out of the way so pairing is not broken
+        notes.push(line);
       } else {
-        return `<div class="line context"><span class="sign"> </span>${esc(line.slice(1))}</div>`;
+        flush();
+        blocks.push({ kind: 'context', old: { no: oldNo++, html: esc(text) }, new: { no: newNo++, html: esc(text) } });
       }
+    }
+    flush();
+    return blocks;
+  }
+
+  /** Both lines as HTML with their differing words marked, or undefined if they are too different */
+  function highlightWords(before: string, after: string): [string, string] | undefined {
+    const longest = Math.max(before.length, after.length);
+    if (longest > MAX_WORD_DIFF_LENGTH) return undefined;
+
+    const parts = diffWordsWithSpace(before, after);
+    const shared = parts.filter(p => !p.added && !p.removed).reduce((n, p) => n + p.value.length, 0);
+    // A mostly rewritten line reads better as a plain removed/added pair
+    if (shared < longest * MIN_WORD_DIFF_OVERLAP) return undefined;
+
+    const mark = (cls: string, value: string) => `<span class="${cls}">${esc(value)}</span>`;
+    return [
+      parts.filter(p => !p.added).map(p => p.removed ? mark('word-removed', p.value) : esc(p.value)).join(''),
+      parts.filter(p => !p.removed).map(p => p.added ? mark('word-added', p.value) : esc(p.value)).join(''),
+    ];
+  }
+
+  /** Line content tagged with its side and number so the webview can highlight it */
+  function code(side: 'old' | 'new', line: RenderedLine): string {
+    return `<span class="code" data-side="${side}" data-no="${line.no}">${line.html}</span>`;
+  }
+
+  function renderUnified(blocks: LineBlock[]): string {
+    return blocks.map(block => {
+      if (block.kind === 'note') return `<div class="line context"><span class="sign"> </span>${esc(block.text)}</div>`;
+      if (block.kind === 'context') return `<div class="line context"><span class="sign"> </span>${code('new', block.new)}</div>`;
+      return block.removed.map(l => `<div class="line removed"><span class="sign">-</span>${code('old', l)}</div>`).join('')
+        + block.added.map(l => `<div class="line added"><span class="sign">+</span>${code('new', l)}</div>`).join('');
     }).join('');
+  }
+
+  /** Before and after in aligned columns with line numbers; uneven blocks are padded with blank cells */
+  function renderSplit(blocks: LineBlock[]): string {
+    const cell = (side: 'old' | 'new', line: RenderedLine | undefined, cls: string) => line
+      ? `<span class="ln">${line.no}</span><span class="cell ${cls}">${code(side, line)}</span>`
+      : '<span class="ln"></span><span class="cell empty"></span>';
+
+    return blocks.map(block => {
+      if (block.kind === 'note') return `<div class="split-row note">${esc(block.text)}</div>`;
+      if (block.kind === 'context') return `<div class="split-row">${cell('old', block.old, 'context')}${cell('new', block.new, 'context')}</div>`;
+      const rows = Math.max(block.removed.length, block.added.length);
+      return Array.from({ length: rows }, (_, i) =>
+        `<div class="split-row">${cell('old', block.removed[i], 'removed')}${cell('new', block.added[i], 'added')}</div>`,
+      ).join('');
+    }).join('');
+  }
+
+  function renderHunk(diff: FileDiff, hunk: DiffHunk): string {
+    const id = `comment-${commentCount++}`;
+    const comment = `<button class="btn btn-open btn-hunk" onclick="editComment('${id}')" title="Comment on this change">💬</button>`;
+    const actions = isLocked(diff) ? ''
+      : hunk.status === 'pending' ? `
+          <span class="hunk-actions">
+            ${comment}
+            ${diff.unknownBase ? '' : `<button class="btn btn-reject btn-hunk" onclick="rejectHunk(fileOf(this), ${hunk.index})">✕ Reject</button>`}
+            ${diff.staleBase ? '' : `<button class="btn btn-accept btn-hunk" onclick="acceptHunk(fileOf(this), ${hunk.index})">✓ Accept</button>`}
+          </span>`
+      : `<span class="hunk-actions">${comment}${diff.hunks.length > 1 ? `<span class="status-tag ${hunk.status}">${hunk.status}</span>` : ''}</span>`;
+
+    return `
+        <div class="hunk-block ${hunk.status === 'pending' ? '' : hunk.status}">
+          <div class="line hunk"><span class="hunk-range">${esc(hunk.header)}</span>${actions}</div>
+          ${layout === 'split' ? renderSplit(toBlocks(hunk)) : renderUnified(toBlocks(hunk))}
+          ${renderComment(id, hunk.index, hunk.comment)}
+        </div>`;
+  }
 
-    const statusClass = diff.status === 'accepted' ? 'accepted' : diff.status === 'rejected' ? 'rejected' : '';
-    const badge = diff.isNew ? '<span class="badge new">NEW</span>' : diff.isDeleted ? '<span class="badge del">DEL</span>' : '';
-    const fp = diff.filePath.replace(/'/g, "\\'");
+  /** A comment box — shown when there is a comment, opened by its 💬 button otherwise */
+  function renderComment(id: string, hunkIndex: number | undefined, text: string | undefined): string {
+    return `
+        <div class="comment" id="${id}"${text ? '' : ' hidden'}>
+          <div class="comment-view"${text ? '' : ' hidden'}>
+            <span>💬</span>
+            <span class="comment-text">${esc(text ?? '')}</span>
+            <button class="btn btn-open btn-hunk" onclick="editComment('${id}')">Edit</button>
+          </div>
+          <div class="comment-edit" hidden>
+            <textarea placeholder="What should Claude do differently?">${esc(text ?? '')}</textarea>
+            <div class="comment-buttons">
+              <button class="btn btn-open" onclick="cancelComment('${id}')">Cancel</button>
+              <button class="btn btn-accept" onclick="saveComment('${id}', fileOf(this), ${hunkIndex ?? 'null'})">Save Comment</button>
+            </div>
+          </div>
+        </div>`;
+  }
 
+  /** What was flagged in the earlier review, and whether this run touched it */
+  function renderFollowUp(root: string, earlier: SessionRecord): string {
+    const touched = new Set(diffs.filter(d => d.root === root).flatMap(d => [d.relativePath, d.oldRelativePath]));
+    const flagged = earlier.files.filter(f => f.comments || f.status === 'rejected');
+    if (flagged.length === 0) return '';
+    const folder = folderNames ? ` in ${esc(folderNames.get(root) ?? root)}` : '';
     return `
-      <div class="file-card ${statusClass}">
+      <div class="follow-up">
+        <strong>↩ Follow-up</strong> to the feedback you sent${folder} on ${esc(new Date(earlier.feedbackSentAt ?? earlier.endedAt).toLocaleString())}
+        <ul>
+          ${flagged.map(f => touched.has(f.relativePath)
+            ? `<li class="changed">✓ ${esc(f.relativePath)} — changed again</li>`
+            : `<li class="untouched">○ ${esc(f.relativePath)} — not changed in this run</li>`).join('')}
+        </ul>
+      </div>`;
+  }
+
+  /** Comments from the review this run follows up on, for the same file */
+  function renderEarlierComments(diff: FileDiff): string {
+    const file = followUps.get(diff.root)?.files.find(f => [diff.relativePath, diff.oldRelativePath].includes(f.relativePath));
+    return (file?.comments ?? []).map(c => `
+        <div class="earlier-comment">↩ Your earlier comment${c.hunk ? ` on <span class="hunk-range">${esc(c.hunk)}</span>` : ''}: ${esc(c.text)}</div>`).join('');
+  }
+
+  /** Size and hash of each side instead of lines */
+  function renderBinary(diff: FileDiff): string {
+    const { before, after } = diff.binary!;
+    const side = (sign: string, cls: string, content: BinaryContent) =>
+      `<div class="line ${cls}"><span class="sign">${sign}</span>${formatSize(content.size)} · sha256 ${content.sha256.slice(0, 12)}</div>`;
+    return `
+        <div class="line hunk"><span class="hunk-range">Binary file</span></div>
+        ${before ? side('-', 'removed', before) : ''}
+        ${after ? side('+', 'added', after) : ''}`;
+  }
+
+  /** A move without content changes, or an empty file created or deleted — its one hunk has no lines to show */
+  function hasNoLines(diff: FileDiff): boolean {
+    return diff.hunks.length === 1 && diff.hunks[0].lines.length === 0;
+  }
+
+  function renderNoLines(diff: FileDiff): string {
+    return `
+        <div class="line hunk"><span class="hunk-range">${esc(diff.hunks[0].header)}</span></div>`;
+  }
+
+  /** Hunks up to MAX_RENDERED_LINES, then a note pointing at the native diff */
+  function renderHunks(diff: FileDiff): string {
+    let count = 1; // the first hunk is always shown, cut short if needed
+    let budget = MAX_RENDERED_LINES - (diff.hunks[0]?.lines.length ?? 0);
+    while (count < diff.hunks.length && budget >= diff.hunks[count].lines.length) {
+      budget -= diff.hunks[count++].lines.length;
+    }
+    const shown = diff.hunks.slice(0, count);
+    const hidden = diff.hunks.slice(count);
+    const rendered = shown.map(h => {
+      if (h.lines.length <= MAX_RENDERED_LINES) return renderHunk(diff, h);
+      // A single hunk too big to show — keep its header and actions, cut its body
+      return renderHunk(diff, { ...h, lines: h.lines.slice(0, MAX_RENDERED_LINES) })
+        + `<div class="line truncated">… ${h.lines.length - MAX_RENDERED_LINES} more lines of this change not shown</div>`;
+    }).join('');
+    if (hidden.length === 0) return rendered;
+
+    const lines = hidden.reduce((n, h) => n + h.lines.length, 0);
+    return rendered + `
+        <div class="line truncated">… ${hidden.length} more change${hidden.length === 1 ? '' : 's'} (${lines} lines) not shown — use ⊞ Diff or accept/reject the whole file</div>`;
+  }
+
+  function renderDiff(diff: FileDiff): string {
+    const statusClass = isLocked(diff) ? 'live' : diff.status === 'accepted' ? 'accepted' : diff.status === 'rejected' ? 'rejected' : '';
+    const badge = diff.oldPath ? '<span class="badge moved">MOVED</span>'
+      : diff.isNew ? '<span class="badge new">NEW</span>' : diff.isDeleted ? '<span class="badge del">DEL</span>' : '';
+    const commentId = `comment-${commentCount++}`;
+    const rendered = diff.binary ? renderBinary(diff) : hasNoLines(diff) ? renderNoLines(diff) : renderHunks(diff);
+    const lang = diff.binary ? undefined : languageFor(diff.relativePath);
+
+    return `
+      <div class="file-card ${statusClass}" data-file="${esc(diff.filePath)}"${lang ? ` data-lang="${esc(lang)}"` : ''}>
+        ${lang ? renderSource(diff) : ''}
         <div class="file-header">
           <div class="file-meta">
-            <span class="file-icon">📄</span>
-            <span class="file-name">${esc(diff.relativePath)}</span>
+            <span class="file-icon">${diff.binary ? '📦' : '📄'}</span>
+            <span class="file-name">${diff.oldRelativePath ? `${esc(diff.oldRelativePath)} <span class="arrow">→</span> ` : ''}${esc(diff.relativePath)}</span>
             ${badge}
+            ${diff.fileMode ? `<span class="badge mode" title="File mode set when accepted">${diff.oldFileMode ? `${esc(diff.oldFileMode)} → ` : ''}${esc(diff.fileMode)}</span>` : ''}
+            ${diff.pathPolicy ? renderPolicy(diff) : ''}
+            ${diff.changeClass ? renderChangeClass(diff) : ''}
             ${diff.status !== 'pending' ? `<span class="status-tag ${diff.status}">${diff.status}</span>` : ''}
           </div>
-          ${diff.status === 'pending' ? `
+          ${isLocked(diff) ? `
           <div class="file-actions">
-            <button class="btn btn-open" onclick="openDiff('${fp}')">⊞ Diff</button>
-            <button class="btn btn-reject" onclick="rejectFile('${fp}')">✕ Reject</button>
-            <button class="btn btn-accept" onclick="acceptFile('${fp}')">✓ Accept</button>
-          </div>` : ''}
+            <span class="status-tag writing">writing…</span>
+          </div>` : diff.status === 'pending' ? `
+          <div class="file-actions">
+            <button class="btn btn-open" onclick="editComment('${commentId}')">💬 Comment</button>
+            ${diff.binary ? '' : `<button class="btn btn-open" onclick="openDiff(fileOf(this))">⊞ Diff</button>`}
+            ${diff.unknownBase ? '' : `<button class="btn btn-reject" onclick="rejectFile(fileOf(this))">✕ Reject</button>`}
+            ${diff.staleBase ? '' : `<button class="btn btn-accept" onclick="acceptFile(fileOf(this))">✓ Accept</button>`}
+          </div>` : `
+          <div class="file-actions">
+            <button class="btn btn-open" onclick="editComment('${commentId}')">💬 Comment</button>
+            ${diff.autoAccepted && diff.status === 'accepted' ? `<button class="btn btn-reject" onclick="revertFile(fileOf(this))">↺ Revert</button>` : ''}
+          </div>`}
         </div>
+        ${renderEarlierComments(diff)}
+        ${isLocked(diff) ? '' : renderComment(commentId, undefined, diff.comment)}
+        ${diff.staleBase && diff.status === 'pending' ? `
+        <div class="conflict-banner">
+          <span>⚠ ${esc(diff.oldRelativePath ?? diff.relativePath)} changed since Claude staged this change, so it cannot be applied — reject it and ask Claude again.</span>
+        </div>` : ''}
+        ${diff.unknownBase && diff.status === 'pending' ? `
+        <div class="conflict-banner">
+          <span>⚠ Claude changed ${esc(diff.relativePath)} before its original could be saved, so the change cannot be rejected here — accept it, or restore the file from git.</span>
+        </div>` : ''}
+        ${diff.conflict ? renderConflict(diff) : ''}
         <div class="diff-body">
           <code class="diff-code">${rendered || '<div class="line context">No displayable changes</div>'}</code>
         </div>
@@ -619,6 +1333,42 @@ function getWebviewContent(diffs: FileDiff[], mode: string): string {
     `;
   }
 
+  /** Which claudediff.pathPolicies rule decided the file */
+  function renderPolicy(diff: FileDiff): string {
+    const labels: Record<string, string> = {
+      auto: 'AUTO-ACCEPTED',
+      propose: 'REVIEW REQUIRED',
+      block: 'BLOCKED',
+    };
+    const policy = diff.pathPolicy!;
+    return `<span class="badge policy-${policy}" title="Path policy: ${esc(diff.policyPattern ?? '')} → ${policy}">${labels[policy]}</span>`;
+  }
+
+  /** What kind of trivial change the classifier found */
+  function renderChangeClass(diff: FileDiff): string {
+    const labels: Record<string, string> = {
+      whitespace: 'WHITESPACE ONLY',
+      comments: 'COMMENTS ONLY',
+      imports: 'IMPORTS REORDERED',
+      lockfile: 'LOCKFILE',
+      generated: 'GENERATED',
+    };
+    return `<span class="badge change-class" title="Change class: ${diff.changeClass}">${labels[diff.changeClass!]}</span>`;
+  }
+
+  /** Full before/after text for the highlighter, as JSON that cannot close its <script> early */
+  function renderSource(diff: FileDiff): string {
+    if (diff.before.length + diff.after.length > MAX_HIGHLIGHT_SOURCE) return '';
+    const json = JSON.stringify({ old: diff.before, new: diff.after }).replace(/</g, '\\u003c');
+    return `<script type="application/json" class="source">${json}</script>`;
+  }
+
+  function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
   function esc(str: string): string {
     return str
       .replace(/&/g, '&amp;')
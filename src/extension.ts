@@ -1,20 +1,41 @@
 import * as vscode from 'vscode';
 import { ClaudeWatcher } from './claudeWatcher';
-import { DiffManager } from './diffManager';
+import { DiffManager, FileDiff } from './diffManager';
 import { DiffPanel } from './diffPanel';
 import { ClaudeModeManager } from './claudeModeManager';
+import { SessionHistory } from './sessionHistory';
+import { GitIntegration } from './gitIntegration';
+import { installHooks } from './hookEvents';
+import { ApprovalServer } from './approvalServer';
+import { InlineReview } from './inlineReview';
+import { ClaudeScm } from './claudeScm';
+import { ChangeNode, ChangesTree } from './changesTree';
+import { exportPatch, importPatch } from './patchFiles';
+import { ReviewFeedback } from './reviewFeedback';
+import { PathPolicy } from './pathPolicies';
 
-let claudeWatcher: ClaudeWatcher;
+const claudeWatchers = new Map<string, ClaudeWatcher>(); // workspace folder → its watcher
+let watching = true;
 let diffManager: DiffManager;
 let modeManager: ClaudeModeManager;
+let sessionHistory: SessionHistory;
+let gitIntegration: GitIntegration;
+let reviewFeedback: ReviewFeedback;
+let inlineReview: InlineReview;
 let statusBarItem: vscode.StatusBarItem;
 
 export function activate(context: vscode.ExtensionContext) {
   console.log('Claude Diff extension activated');
 
-  diffManager = new DiffManager();
+  diffManager = new DiffManager((context.storageUri ?? context.globalStorageUri).fsPath);
   modeManager = new ClaudeModeManager(context);
-  claudeWatcher = new ClaudeWatcher(diffManager, modeManager);
+  sessionHistory = new SessionHistory(context, diffManager);
+  gitIntegration = new GitIntegration(context, diffManager, sessionHistory);
+  reviewFeedback = new ReviewFeedback(diffManager, sessionHistory);
+  new ApprovalServer(context, modeManager);
+  inlineReview = new InlineReview(context, diffManager);
+  new ClaudeScm(context, diffManager);
+  const changesTree = new ChangesTree(context, diffManager);
 
   // Status bar — shows current mode
   statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
@@ -26,31 +47,61 @@ export function activate(context: vscode.ExtensionContext) {
   // Commands
   context.subscriptions.push(
     vscode.commands.registerCommand('claudediff.enable', () => {
-      claudeWatcher.start();
+      watching = true;
+      claudeWatchers.forEach(w => w.start());
       vscode.window.showInformationMessage('Claude Diff: Watching enabled');
     }),
 
     vscode.commands.registerCommand('claudediff.disable', () => {
-      claudeWatcher.stop();
+      watching = false;
+      claudeWatchers.forEach(w => w.stop());
       vscode.window.showInformationMessage('Claude Diff: Watching disabled');
     }),
 
+    vscode.commands.registerCommand('claudediff.installHooks', async () => {
+      const folders = vscode.workspace.workspaceFolders ?? [];
+      const folder = folders.length > 1
+        ? await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Install Claude Code hooks for which folder?' })
+        : folders[0];
+      if (!folder) return;
+      try {
+        installHooks(context.extensionPath, folder.uri.fsPath);
+        vscode.window.showInformationMessage(`Claude Diff: Claude Code hooks installed in ${folder.name}/.claude/settings.json`);
+      } catch (e) {
+        vscode.window.showErrorMessage(`Claude Diff: Could not install hooks — ${e}`);
+      }
+    }),
+
     vscode.commands.registerCommand('claudediff.switchMode', async () => {
       const mode = await modeManager.promptSwitchMode();
       if (mode) updateStatusBar();
     }),
 
     vscode.commands.registerCommand('claudediff.showReview', () => {
-      DiffPanel.createOrShow(context.extensionUri, diffManager, modeManager);
+      DiffPanel.createOrShow(context, diffManager, modeManager, sessionHistory);
     }),
 
+    vscode.commands.registerCommand('claudediff.showHistory', () => sessionHistory.browse()),
+
+    vscode.commands.registerCommand('claudediff.commitAccepted', () => gitIntegration.commitAccepted()),
+
+    vscode.commands.registerCommand('claudediff.sendFeedback', () => reviewFeedback.send()),
+
     vscode.commands.registerCommand('claudediff.acceptAll', () => {
+      if (diffManager.isRunning) {
+        vscode.window.showWarningMessage('Claude is still writing — wait for the run to finish');
+        return;
+      }
       diffManager.acceptAll();
       DiffPanel.currentPanel?.refresh();
       vscode.window.showInformationMessage('Accepted all Claude changes');
     }),
 
     vscode.commands.registerCommand('claudediff.rejectAll', () => {
+      if (diffManager.isRunning) {
+        vscode.window.showWarningMessage('Claude is still writing — wait for the run to finish');
+        return;
+      }
       diffManager.rejectAll();
       DiffPanel.currentPanel?.refresh();
       vscode.window.showInformationMessage('Rejected all Claude changes');
@@ -65,20 +116,157 @@ export function activate(context: vscode.ExtensionContext) {
       diffManager.rejectFile(filePath);
       DiffPanel.currentPanel?.refresh();
     }),
+
+    vscode.commands.registerCommand('claudediff.acceptHunk', (filePath: string, hunkIndex: number) => {
+      diffManager.acceptHunk(filePath, hunkIndex);
+      DiffPanel.currentPanel?.refresh();
+    }),
+
+    vscode.commands.registerCommand('claudediff.rejectHunk', (filePath: string, hunkIndex: number) => {
+      diffManager.rejectHunk(filePath, hunkIndex);
+      DiffPanel.currentPanel?.refresh();
+    }),
+
+    // Inline actions in the Claude source control — on selected files or a whole group
+    vscode.commands.registerCommand('claudediff.acceptResource', (...args: unknown[]) => {
+      const paths = resourcePaths(args);
+      diffManager.batch(`Accept ${countFiles(paths.length)}`, () => paths.forEach(fp => diffManager.acceptFile(fp)));
+      DiffPanel.currentPanel?.refresh();
+    }),
+
+    vscode.commands.registerCommand('claudediff.rejectResource', (...args: unknown[]) => {
+      const paths = resourcePaths(args);
+      diffManager.batch(`Reject ${countFiles(paths.length)}`, () => paths.forEach(fp => diffManager.rejectFile(fp)));
+      DiffPanel.currentPanel?.refresh();
+    }),
+
+    // Changes view — a file, a folder (every pending file under it), or a multi-selection
+    vscode.commands.registerCommand('claudediff.acceptNode', (node: ChangeNode, selected?: ChangeNode[]) => {
+      const pending = changesTree.filesUnder(selected ?? [node]).filter(d => d.status === 'pending');
+      diffManager.batch(`Accept ${countFiles(pending.length)}`, () => pending.forEach(d => diffManager.acceptFile(d.filePath)));
+    }),
+
+    vscode.commands.registerCommand('claudediff.rejectNode', (node: ChangeNode, selected?: ChangeNode[]) => {
+      const pending = changesTree.filesUnder(selected ?? [node]).filter(d => d.status === 'pending');
+      diffManager.batch(`Reject ${countFiles(pending.length)}`, () => pending.forEach(d => diffManager.rejectFile(d.filePath)));
+    }),
+
+    vscode.commands.registerCommand('claudediff.nextChange', () => inlineReview.goToChange(1)),
+
+    vscode.commands.registerCommand('claudediff.previousChange', () => inlineReview.goToChange(-1)),
+
+    // From the Changes view: the clicked or selected files; otherwise pick what to export
+    vscode.commands.registerCommand('claudediff.exportPatch', async (node?: ChangeNode, selected?: ChangeNode[]) => {
+      const diffs = node ? changesTree.filesUnder(selected ?? [node]) : await pickDiffsToExport();
+      if (diffs) await exportPatch(diffs);
+    }),
+
+    vscode.commands.registerCommand('claudediff.importPatch', async () => {
+      const imported = await importPatch(diffManager);
+      if (imported > 0) DiffPanel.createOrShow(context, diffManager, modeManager, sessionHistory);
+    }),
+
+    vscode.commands.registerCommand('claudediff.undo', () => replayReviewAction('undo')),
+
+    vscode.commands.registerCommand('claudediff.redo', () => replayReviewAction('redo')),
   );
 
-  // Auto-start watching
-  claudeWatcher.start();
+  // Auto-start watching — one watcher per workspace folder, kept in sync as folders come and go
+  syncWatchers();
+  context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(() => syncWatchers()));
 
   // Listen for mode changes to show review panel automatically
   modeManager.onModeChange(() => updateStatusBar());
+  diffManager.onDidChangeDiffs(() => updateStatusBar());
   diffManager.onChangesReady(() => {
     if (modeManager.currentMode !== 'auto') {
-      DiffPanel.createOrShow(context.extensionUri, diffManager, modeManager);
+      DiffPanel.createOrShow(context, diffManager, modeManager, sessionHistory);
     }
   });
 }
 
+function syncWatchers() {
+  const roots = new Set((vscode.workspace.workspaceFolders ?? []).map(f => f.uri.fsPath));
+
+  for (const [root, watcher] of claudeWatchers) {
+    if (roots.has(root)) continue;
+    watcher.stop();
+    claudeWatchers.delete(root);
+    diffManager.removeFolder(root);
+  }
+  for (const root of roots) {
+    if (claudeWatchers.has(root)) continue;
+    const watcher = new ClaudeWatcher(root, diffManager, modeManager, sessionHistory);
+    claudeWatchers.set(root, watcher);
+    if (watching) watcher.start();
+  }
+}
+
+/** Undoes or redoes the last review action, confirming first if that would overwrite later edits */
+async function replayReviewAction(direction: 'undo' | 'redo') {
+  const label = direction === 'undo' ? diffManager.undoLabel : diffManager.redoLabel;
+  if (!label) {
+    vscode.window.showInformationMessage(`Claude Diff: Nothing to ${direction}`);
+    return;
+  }
+  if (diffManager.isLocked(direction)) {
+    vscode.window.showWarningMessage('Claude is still writing — wait for the run to finish');
+    return;
+  }
+
+  const edited = diffManager.editedSince(direction);
+  if (edited.length > 0) {
+    const names = edited.map(fp => vscode.workspace.asRelativePath(fp)).join(', ');
+    const overwrite = direction === 'undo' ? 'Undo Anyway' : 'Redo Anyway';
+    const choice = await vscode.window.showWarningMessage(
+      `${names} changed since "${label}". ${direction === 'undo' ? 'Undoing' : 'Redoing'} it overwrites those edits.`,
+      { modal: true },
+      overwrite,
+    );
+    if (choice !== overwrite) return;
+  }
+
+  const done = direction === 'undo' ? diffManager.undo() : diffManager.redo();
+  DiffPanel.currentPanel?.refresh();
+  if (done) vscode.window.showInformationMessage(`Claude Diff: ${direction === 'undo' ? 'Undid' : 'Redid'} "${done}"`);
+}
+
+async function pickDiffsToExport(): Promise<FileDiff[] | undefined> {
+  const all = diffManager.getAllDiffs();
+  if (all.length === 0) {
+    vscode.window.showInformationMessage('Claude Diff: No changes to export');
+    return undefined;
+  }
+  const pending = all.filter(d => d.status === 'pending');
+  const accepted = all.filter(d => d.status === 'accepted');
+  const scope = await vscode.window.showQuickPick([
+    { label: 'Pending changes', description: countFiles(pending.length), diffs: pending },
+    { label: 'Accepted changes', description: countFiles(accepted.length), diffs: accepted },
+    { label: 'Choose files…', diffs: undefined },
+  ], { placeHolder: 'Export which changes as a patch?' });
+  if (!scope) return undefined;
+  if (scope.diffs) return scope.diffs;
+
+  const files = await vscode.window.showQuickPick(
+    all.map(d => ({ label: vscode.workspace.asRelativePath(d.filePath), description: d.status, diff: d })),
+    { canPickMany: true, placeHolder: 'Files to export' },
+  );
+  return files?.map(f => f.diff);
+}
+
+function countFiles(n: number): string {
+  return `${n} file${n === 1 ? '' : 's'}`;
+}
+
+/** File paths from SCM command arguments: resource states, or resource groups */
+function resourcePaths(args: unknown[]): string[] {
+  const states = args.flat().flatMap((arg) => {
+    const item = arg as Partial<vscode.SourceControlResourceGroup & vscode.SourceControlResourceState>;
+    return item.resourceStates ?? (item.resourceUri ? [item as vscode.SourceControlResourceState] : []);
+  });
+  return [...new Set(states.map(s => s.resourceUri.fsPath))];
+}
+
 function updateStatusBar() {
   const mode = modeManager.currentMode;
   const icons: Record<string, string> = {
@@ -92,9 +280,29 @@ function updateStatusBar() {
     ask: 'Claude: Ask First',
   };
   statusBarItem.text = `${icons[mode]} ${labels[mode]}`;
-  statusBarItem.tooltip = 'Click to switch Claude Code edit mode';
+  statusBarItem.tooltip = `Click to switch Claude Code edit mode (synced to ${modeManager.settingsLabel})`;
+
+  // Which path policy decided each file of the last run
+  const decided = diffManager.getAllDiffs().filter(d => d.pathPolicy);
+  if (decided.length === 0) return;
+  const policyIcons: Record<PathPolicy, string> = {
+    auto: '$(check)',
+    propose: '$(eye)',
+    block: '$(circle-slash)',
+  };
+  const policyLabels: Record<PathPolicy, string> = {
+    auto: 'auto-accepted',
+    propose: 'held for review',
+    block: 'blocked',
+  };
+  const groups = (['auto', 'propose', 'block'] as PathPolicy[])
+    .map(policy => ({ policy, diffs: decided.filter(d => d.pathPolicy === policy) }))
+    .filter(group => group.diffs.length > 0);
+  statusBarItem.text += groups.map(g => ` ${policyIcons[g.policy]} ${g.diffs.length}`).join('');
+  statusBarItem.tooltip += groups.map(g => `\n\nPath policy — ${policyLabels[g.policy]}:\n`
+    + g.diffs.map(d => `  ${d.relativePath}  (${d.policyPattern})`).join('\n')).join('');
 }
 
 export function deactivate() {
-  claudeWatcher?.stop();
+  claudeWatchers.forEach(w => w.stop());
 }
\ No newline at end of file
@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { DiffManager, FileDiff } from './diffManager';
+import { SessionHistory } from './sessionHistory';
+
+const exec = promisify(execFile);
+
+/**
+ * Commits accepted Claude changes with the git CLI.
+ *
+ * Only files accepted in DiffManager are staged, and the commit is made
+ * with `--only` so anything else already in the index stays out of it.
+ * Rejected files are never passed to git. In multi-root workspaces each
+ * folder is committed separately, in its own repository.
+ *
+ * Settings:
+ *   claudediff.git.autoCommit       → commit as soon as a review is fully resolved
+ *   claudediff.git.branchPerSession → commit on a `claude/<session>` branch instead,
+ *                                     without checking it out
+ */
+export class GitIntegration {
+  private committed = new Set<string>(); // session ids already committed
+
+  constructor(
+    context: vscode.ExtensionContext,
+    private diffManager: DiffManager,
+    private history: SessionHistory,
+  ) {
+    context.subscriptions.push(
+      diffManager.onDidChangeDiffs(() => this.onDiffsChanged()),
+      // A run resolved entirely by path policies or auto-accept is only complete once recorded
+      history.onDidRecord(() => this.onDiffsChanged()),
+    );
+  }
+
+  private get config() {
+    return vscode.workspace.getConfiguration('claudediff.git');
+  }
+
+  private onDiffsChanged() {
+    if (!this.config.get<boolean>('autoCommit', false)) return;
+
+    for (const root of new Set(this.diffManager.getAllDiffs().map(d => d.root))) {
+      const diffs = this.diffManager.getAllDiffs().filter(d => d.root === root);
+      if (this.diffManager.isRunningIn(root) || diffs.some(d => d.status === 'pending')) continue;
+      if (!diffs.some(d => d.status === 'accepted')) continue;
+
+      const session = this.history.currentSession(root);
+      if (!session || this.committed.has(session.id)) continue;
+
+      this.commitRoot(root);
+    }
+  }
+
+  /** Commits every accepted file of the current review, folder by folder */
+  async commitAccepted() {
+    const roots = new Set(this.diffManager.getAllDiffs().filter(d => d.status === 'accepted').map(d => d.root));
+    if (roots.size === 0) {
+      vscode.window.showInformationMessage('Claude Diff: No accepted changes to commit');
+      return;
+    }
+    for (const root of roots) await this.commitRoot(root);
+  }
+
+  private async commitRoot(cwd: string) {
+    const accepted = this.diffManager.getAllDiffs().filter(d => d.root === cwd && d.status === 'accepted');
+    if (accepted.length === 0) return;
+
+    const session = this.history.currentSession(cwd);
+    if (session) this.committed.add(session.id);
+    // A move is committed as the deletion of its old path plus the new file
+    const paths = accepted.flatMap(d => d.oldPath ? [d.oldPath, d.filePath] : [d.filePath]);
+
+    const message = buildCommitMessage(accepted, session?.prompt, session?.sessionId);
+
+    try {
+      await this.git(cwd, 'rev-parse', '--is-inside-work-tree');
+
+      if (this.config.get<boolean>('branchPerSession', false)) {
+        await this.commitToSessionBranch(cwd, session?.sessionId ?? `session-${Date.now()}`, paths, message);
+      } else {
+        // -A so accepted deletions are staged too
+        await this.git(cwd, 'add', '-A', '--', ...paths);
+        await this.git(cwd, 'commit', '--only', '-m', message, '--', ...paths);
+      }
+
+      console.log(`[ClaudeDiff] Committed ${accepted.length} accepted file(s)`);
+      vscode.window.showInformationMessage(`Claude Diff: Committed ${accepted.length} accepted file${accepted.length === 1 ? '' : 's'}`);
+    } catch (e) {
+      const message = (e as { stderr?: string }).stderr?.trim() || String(e);
+      vscode.window.showErrorMessage(`Claude Diff: git commit failed — ${message}`);
+    }
+  }
+
+  /**
+   * Commits `paths` as they are on disk to `claude/<session>` without moving
+   * HEAD: the tree is built in a scratch index on top of the branch — or of
+   * HEAD for a new branch — so the user's branch, index and working tree are
+   * left alone.
+   */
+  private async commitToSessionBranch(cwd: string, sessionId: string, paths: string[], message: string) {
+    const ref = `refs/heads/claude/${sessionId.replace(/[^\w.-]+/g, '-').slice(0, 60)}`;
+    const existing = (await this.git(cwd, 'rev-parse', '--verify', '--quiet', ref).catch(() => '')).trim();
+    const parent = existing || (await this.git(cwd, 'rev-parse', '--verify', '--quiet', 'HEAD').catch(() => '')).trim();
+
+    const gitDir = (await this.git(cwd, 'rev-parse', '--absolute-git-dir')).trim();
+    const env = { ...process.env, GIT_INDEX_FILE: path.join(gitDir, 'claude-diff-index') };
+    try {
+      await this.gitWith(cwd, env, 'read-tree', ...(parent ? [parent] : ['--empty']));
+      // A deletion may already be on the branch from an earlier commit of this session
+      const present = paths.filter(p => fs.existsSync(p));
+      const removed = paths.filter(p => !fs.existsSync(p));
+      if (present.length > 0) await this.gitWith(cwd, env, 'add', '--', ...present);
+      if (removed.length > 0) await this.gitWith(cwd, env, 'rm', '--cached', '--quiet', '--ignore-unmatch', '--', ...removed);
+      const tree = (await this.gitWith(cwd, env, 'write-tree')).trim();
+      const commit = (await this.git(cwd, 'commit-tree', tree, ...(parent ? ['-p', parent] : []), '-m', message)).trim();
+      // Fails rather than overwrite the branch if it moved meanwhile
+      await this.git(cwd, 'update-ref', ref, commit, existing);
+    } finally {
+      fs.rmSync(env.GIT_INDEX_FILE, { force: true });
+    }
+  }
+
+  private git(cwd: string, ...args: string[]): Promise<string> {
+    return this.gitWith(cwd, process.env, ...args);
+  }
+
+  private async gitWith(cwd: string, env: NodeJS.ProcessEnv, ...args: string[]): Promise<string> {
+    const { stdout } = await exec('git', args, { cwd, env });
+    return stdout;
+  }
+}
+
+/**
+ * Subject from the prompt when known, then the session id and a
+ * per-file list with +/- counts of the accepted hunks.
+ */
+function buildCommitMessage(diffs: FileDiff[], prompt?: string, sessionId?: string): string {
+  const firstLine = prompt?.trim().split('\n')[0];
+  const subject = firstLine
+    ? `Claude: ${firstLine.length > 60 ? firstLine.slice(0, 57) + '...' : firstLine}`
+    : `Apply Claude changes (${diffs.length} file${diffs.length === 1 ? '' : 's'})`;
+
+  const files = diffs.map(d => {
+    const kind = d.oldRelativePath ? 'R' : d.isNew ? 'A' : d.isDeleted ? 'D' : 'M';
+    let added = 0;
+    let removed = 0;
+    for (const hunk of d.hunks) {
+      if (hunk.status !== 'accepted') continue;
+      added += hunk.lines.filter(l => l.startsWith('+')).length;
+      removed += hunk.lines.filter(l => l.startsWith('-')).length;
+    }
+    const name = d.oldRelativePath ? `${d.oldRelativePath} → ${d.relativePath}` : d.relativePath;
+    return `  ${kind} ${name} (+${added} -${removed})`;
+  });
+
+  const body = [
+    sessionId ? `Session: ${sessionId}` : '',
+    prompt && prompt.trim() !== firstLine ? `\nPrompt:\n${prompt.trim()}` : '',
+    `\nFiles:\n${files.join('\n')}`,
+  ].filter(Boolean).join('\n');
+
+  return `${subject}\n\n${body.trim()}\n`;
+}
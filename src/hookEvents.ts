@@ -0,0 +1,150 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as chokidar from 'chokidar';
+import { EDIT_TOOLS, HookEvent, eventsFilePath } from './hookProtocol';
+import { readSettings, settingsPath, updateSettings } from './claudeSettings';
+
+/**
+ * Tails the JSONL events log written by the bundled Claude Code hook
+ * (src/hooks/claudeDiffHook.ts) and fires one event per line.
+ *
+ * Only lines appended after the log is opened are reported, and only whole
+ * lines — the rest is read once the hook has finished writing it. Once a
+ * Stop event has been consumed and nothing else is pending, the log is
+ * renamed aside so it does not grow forever. Truncating it instead could
+ * drop an event the hook was appending at that moment; after a rename such
+ * an event lands in the old file, which is read once more before it is
+ * deleted at the next rotation.
+ */
+export class HookEventLog {
+  private watcher: chokidar.FSWatcher;
+  private offset = 0;
+  private rotated?: { file: string; offset: number }; // the log as it was renamed aside
+  private readonly file: string;
+
+  private _onEvent = new vscode.EventEmitter<HookEvent>();
+  readonly onEvent = this._onEvent.event;
+
+  constructor(root: string) {
+    this.file = eventsFilePath(root);
+    if (fs.existsSync(this.file)) this.offset = fs.statSync(this.file).size;
+
+    this.watcher = chokidar.watch(this.file, { ignoreInitial: true });
+    this.watcher.on('add', () => this.read());
+    this.watcher.on('change', () => this.read());
+  }
+
+  private read() {
+    // Events the hook appended to the old log while it was being renamed
+    if (this.rotated) {
+      const late = readLines(this.rotated.file, this.rotated.offset);
+      this.rotated.offset = late.offset;
+      this.fire(late.lines);
+    }
+
+    const { lines, offset } = readLines(this.file, this.offset);
+    this.offset = offset;
+    if (this.fire(lines)) this.rotate();
+  }
+
+  /** Fires the events in `lines`; true if the last one is a Stop */
+  private fire(lines: string[]): boolean {
+    let sawStop = false;
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const event: HookEvent = JSON.parse(line);
+        sawStop = event.event === 'Stop';
+        this._onEvent.fire(event);
+      } catch (e) {
+        console.warn('[ClaudeDiff] Skipping malformed hook event:', line, e);
+      }
+    }
+    return sawStop;
+  }
+
+  private rotate() {
+    const old = `${this.file}.old`;
+    try {
+      if (fs.statSync(this.file).size !== this.offset) return; // the next run has already begun
+      // The previous rotation was drained at the start of this read
+      fs.rmSync(old, { force: true });
+      fs.renameSync(this.file, old);
+    } catch (e) {
+      console.warn('[ClaudeDiff] Could not rotate the hook events log:', e);
+      return;
+    }
+    this.rotated = { file: old, offset: this.offset };
+    this.offset = 0;
+  }
+
+  dispose() {
+    this.watcher.close();
+    this._onEvent.dispose();
+  }
+}
+
+/** The whole lines of `file` after `offset`, and the offset just past them */
+function readLines(file: string, offset: number): { lines: string[]; offset: number } {
+  let size: number;
+  try {
+    size = fs.statSync(file).size;
+  } catch {
+    return { lines: [], offset };
+  }
+  if (size < offset) offset = 0; // truncated by someone else
+  if (size === offset) return { lines: [], offset };
+
+  const fd = fs.openSync(file, 'r');
+  const buffer = Buffer.alloc(size - offset);
+  fs.readSync(fd, buffer, 0, buffer.length, offset);
+  fs.closeSync(fd);
+
+  const end = buffer.lastIndexOf('\n') + 1;
+  return { lines: buffer.subarray(0, end).toString('utf8').split('\n').slice(0, -1), offset: offset + end };
+}
+
+/**
+ * Registers the bundled hook in the workspace's .claude/settings.json so
+ * Claude Code reports prompt submits, file edits and stops to the extension.
+ * Existing settings and hooks are kept; running it twice is a no-op. The file
+ * is edited through claudeSettings, so its comments and formatting survive
+ * and a file that does not parse is left alone (this throws).
+ */
+export function installHooks(extensionPath: string, root: string) {
+  const file = settingsPath('project', root);
+  const script = path.join(extensionPath, 'out', 'hooks', 'claudeDiffHook.js');
+  const command = `node "${script}"`;
+
+  const settings = readSettings(file) ?? {};
+  const hooks = isObject(settings.hooks) ? settings.hooks : {};
+  // [event, matcher, timeout in seconds] — PreToolUse waits for the user in ask mode
+  const entries: [string, string | undefined, number | undefined][] = [
+    ['UserPromptSubmit', undefined, undefined],
+    ['PreToolUse', EDIT_TOOLS.join('|'), 600],
+    ['PostToolUse', EDIT_TOOLS.join('|'), undefined],
+    ['Stop', undefined, undefined],
+  ];
+
+  for (const [event, matcher, timeout] of entries) {
+    const groups: unknown[] = Array.isArray(hooks[event]) ? hooks[event] as unknown[] : [];
+    const existing = groups
+      .flatMap(g => (isObject(g) && Array.isArray(g.hooks) ? g.hooks as unknown[] : []))
+      .find((h): h is Record<string, unknown> => isObject(h) && typeof h.command === 'string' && h.command.includes('claudeDiffHook'));
+    if (existing) {
+      // Installed by an older version — bring the timeout up to date
+      if (timeout) existing.timeout = timeout;
+      continue;
+    }
+    const hook = { type: 'command', command, ...(timeout ? { timeout } : {}) };
+    groups.push({ ...(matcher ? { matcher } : {}), hooks: [hook] });
+    hooks[event] = groups;
+  }
+
+  updateSettings(file, { hooks });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,80 @@
+import * as path from 'path';
+import * as os from 'os';
+import * as crypto from 'crypto';
+
+/**
+ * Shared between the extension and the bundled Claude Code hook script
+ * (src/hooks/claudeDiffHook.ts), which runs outside VS Code — so nothing
+ * here may import 'vscode'.
+ *
+ * The hook appends one JSON object per line to
+ * `<workspace>/.claude/claude-diff/events.jsonl`; the extension tails it.
+ *
+ * While a run is being snapshotted, the PreToolUse hook also saves the
+ * original of each file Claude is about to edit under
+ * `<workspace>/.claude/claude-diff/originals/` — or, for a file that does
+ * not exist yet, a marker saying so.
+ *
+ * In ask mode the extension also listens on a local socket (named pipe on
+ * Windows). For each edit, the PreToolUse hook sends one ApprovalRequest
+ * line and blocks until an ApprovalDecision line comes back.
+ */
+
+export type HookEventName = 'UserPromptSubmit' | 'PreToolUse' | 'PostToolUse' | 'Stop';
+
+export interface HookEvent {
+  event: HookEventName;
+  session: string;
+  time: number;
+  tool?: string;            // PreToolUse/PostToolUse: Edit, Write, MultiEdit, NotebookEdit
+  file?: string;            // absolute path of the file the tool targets
+  prompt?: string;          // UserPromptSubmit only
+}
+
+/** Tools whose calls the hook reports — the ones that change files */
+export const EDIT_TOOLS = ['Edit', 'Write', 'MultiEdit', 'NotebookEdit'];
+
+export function eventsFilePath(root: string): string {
+  return path.join(root, '.claude', 'claude-diff', 'events.jsonl');
+}
+
+/**
+ * Copy-on-first-change: while the extension snapshots a run it keeps this
+ * folder in place, and the PreToolUse hook copies each file into it before
+ * Claude's first edit to that file.
+ */
+export function originalsDir(root: string): string {
+  return path.join(root, '.claude', 'claude-diff', 'originals');
+}
+
+export function originalCopyPath(root: string, file: string): string {
+  const hash = crypto.createHash('sha1').update(path.resolve(file)).digest('hex');
+  return path.join(originalsDir(root), hash);
+}
+
+/** Left in place of the copy when `file` did not exist before Claude's first write to it */
+export function originalAbsentPath(root: string, file: string): string {
+  return `${originalCopyPath(root, file)}.absent`;
+}
+
+export interface ApprovalRequest {
+  id: string;
+  session: string;
+  tool: string;
+  file: string;             // absolute path
+  toolInput: Record<string, unknown>;
+}
+
+/** `ask` defers to Claude Code's own permission prompt */
+export interface ApprovalDecision {
+  decision: 'allow' | 'deny' | 'ask';
+  reason?: string;
+}
+
+/** Derived from the workspace path so both sides find it without a handshake */
+export function approvalSocketPath(root: string): string {
+  const hash = crypto.createHash('sha1').update(path.resolve(root)).digest('hex').slice(0, 12);
+  return process.platform === 'win32'
+    ? `\\\\.\\pipe\\claude-diff-${hash}`
+    : path.join(os.tmpdir(), `claude-diff-${hash}.sock`);
+}
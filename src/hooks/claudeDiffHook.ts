@@ -0,0 +1,124 @@
+/**
+ * Claude Code hook bundled with the Claude Diff extension.
+ *
+ * Registered for UserPromptSubmit, PreToolUse, PostToolUse and Stop (see
+ * installHooks in hookEvents.ts). Claude Code passes the hook input as JSON
+ * on stdin; we append a trimmed-down HookEvent to the workspace events log
+ * so the extension learns about runs as they happen instead of polling.
+ *
+ * On PreToolUse we first save a copy of the file about to be edited (see
+ * originalCopyPath), then ask the extension to approve the edit. If nothing
+ * is listening (extension closed, or not in ask mode) we print nothing and
+ * Claude Code carries on as configured.
+ *
+ * Runs with plain `node`, outside VS Code. It must never fail Claude's tool
+ * call, so every error is swallowed and we always exit 0.
+ */
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import {
+  ApprovalDecision, ApprovalRequest, EDIT_TOOLS, HookEvent, HookEventName,
+  approvalSocketPath, eventsFilePath, originalAbsentPath, originalCopyPath,
+} from '../hookProtocol';
+
+interface HookInput {
+  session_id?: string;
+  cwd?: string;
+  hook_event_name?: HookEventName;
+  tool_name?: string;
+  tool_input?: { file_path?: string; notebook_path?: string; [key: string]: unknown };
+  prompt?: string;
+}
+
+async function main(raw: string) {
+  const input: HookInput = JSON.parse(raw);
+  const name = input.hook_event_name;
+  if (!name) return;
+  if ((name === 'PreToolUse' || name === 'PostToolUse') && !EDIT_TOOLS.includes(input.tool_name ?? '')) return;
+
+  const root = process.env.CLAUDE_PROJECT_DIR || input.cwd || process.cwd();
+  const target = input.tool_input?.file_path ?? input.tool_input?.notebook_path;
+
+  const event: HookEvent = {
+    event: name,
+    session: input.session_id ?? '',
+    time: Date.now(),
+    tool: input.tool_name,
+    file: target ? path.resolve(root, target) : undefined,
+    prompt: input.prompt,
+  };
+
+  // Before the event is logged, so the copy exists by the time the extension sees it
+  if (name === 'PreToolUse' && event.file) saveOriginal(root, event.file);
+
+  const file = eventsFilePath(root);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.appendFileSync(file, JSON.stringify(event) + '\n');
+
+  if (name === 'PreToolUse' && event.file) {
+    const decision = await requestApproval(root, {
+      id: `${event.session}-${event.time}`,
+      session: event.session,
+      tool: input.tool_name ?? '',
+      file: event.file,
+      toolInput: input.tool_input ?? {},
+    });
+    if (decision) {
+      process.stdout.write(JSON.stringify({
+        hookSpecificOutput: {
+          hookEventName: 'PreToolUse',
+          permissionDecision: decision.decision,
+          permissionDecisionReason: decision.reason,
+        },
+      }));
+    }
+  }
+}
+
+/**
+ * Copies `file` aside before its first edit, if the extension is snapshotting
+ * this run. A file that does not exist yet gets an empty marker instead.
+ */
+function saveOriginal(root: string, file: string) {
+  try {
+    const copy = originalCopyPath(root, file);
+    const absent = originalAbsentPath(root, file);
+    if (!fs.existsSync(path.dirname(copy)) || fs.existsSync(copy) || fs.existsSync(absent)) return;
+    if (fs.existsSync(file)) fs.copyFileSync(file, copy);
+    else fs.writeFileSync(absent, '');
+  } catch {
+    // The extension falls back to its own snapshot
+  }
+}
+
+/** Resolves with the extension's decision, or undefined if it is not listening */
+function requestApproval(root: string, request: ApprovalRequest): Promise<ApprovalDecision | undefined> {
+  return new Promise((resolve) => {
+    let reply = '';
+    const socket = net.createConnection(approvalSocketPath(root), () => {
+      socket.write(JSON.stringify(request) + '\n');
+    });
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk) => { reply += chunk; });
+    socket.on('end', () => {
+      try {
+        resolve(JSON.parse(reply));
+      } catch {
+        resolve(undefined);
+      }
+    });
+    socket.on('error', () => resolve(undefined));
+  });
+}
+
+let raw = '';
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', (chunk) => { raw += chunk; });
+process.stdin.on('end', () => {
+  main(raw)
+    .catch(() => {
+      // Best-effort — never get in Claude's way
+    })
+    .finally(() => process.exit(0));
+});
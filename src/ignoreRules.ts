@@ -0,0 +1,72 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import ignore, { Ignore } from 'ignore';
+
+/**
+ * Decides which paths of a workspace folder the extension looks at. Shared
+ * by the snapshotter (DiffManager.snapshotWorkspace) and the chokidar
+ * watcher so both skip exactly the same files.
+ *
+ * Rules, all in gitignore syntax and matched per path segment (so `out/`
+ * skips an `out` folder but not `layout.ts`):
+ *  - `.git/` and `.claude/` — always skipped
+ *  - every .gitignore in the folder, relative to the directory it lives in
+ *  - the `claudediff.exclude` setting, relative to the workspace folder
+ *
+ * .gitignore files are read lazily and cached until reset().
+ */
+export class IgnoreRules {
+  private base!: Ignore;
+  private gitignores = new Map<string, Ignore | null>(); // directory → its .gitignore rules
+
+  constructor(private root: string) {
+    this.reset();
+  }
+
+  /** Re-reads settings and forgets cached .gitignore files */
+  reset() {
+    const exclude = vscode.workspace
+      .getConfiguration('claudediff', vscode.Uri.file(this.root))
+      .get<string[]>('exclude', []);
+    this.base = ignore().add(['.git/', '.claude/', ...exclude]);
+    this.gitignores.clear();
+  }
+
+  /**
+   * True if `absPath` should be skipped. Pass `isDir` when known; without it
+   * directory-only patterns (`dist/`) are tried both ways.
+   */
+  ignores(absPath: string, isDir?: boolean): boolean {
+    const rel = path.relative(this.root, absPath);
+    if (!rel || rel.startsWith('..') || path.isAbsolute(rel)) return false;
+    const posix = rel.split(path.sep).join('/');
+
+    if (test(this.base, posix, isDir)) return true;
+
+    // Walk down from the root, applying each directory's .gitignore to the rest of the path
+    const segments = posix.split('/');
+    for (let i = 0; i < segments.length; i++) {
+      const dir = path.join(this.root, ...segments.slice(0, i));
+      const rules = this.gitignoreFor(dir);
+      if (rules && test(rules, segments.slice(i).join('/'), isDir)) return true;
+    }
+    return false;
+  }
+
+  private gitignoreFor(dir: string): Ignore | null {
+    let rules = this.gitignores.get(dir);
+    if (rules === undefined) {
+      const file = path.join(dir, '.gitignore');
+      rules = fs.existsSync(file) ? ignore().add(fs.readFileSync(file, 'utf8')) : null;
+      this.gitignores.set(dir, rules);
+    }
+    return rules;
+  }
+}
+
+function test(rules: Ignore, rel: string, isDir?: boolean): boolean {
+  if (isDir === true) return rules.ignores(rel + '/');
+  if (isDir === false) return rules.ignores(rel);
+  return rules.ignores(rel) || rules.ignores(rel + '/');
+}
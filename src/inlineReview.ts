@@ -0,0 +1,238 @@
+import * as vscode from 'vscode';
+import { DiffHunk, DiffManager, FileDiff } from './diffManager';
+
+/** Where a pending hunk sits in the document as it is on disk now */
+interface HunkPlacement {
+  hunk: DiffHunk;
+  firstChange: number;          // 0-based line of the hunk's first change
+  present: number[];            // lines of the hunk that are in the document
+  absent: { line: number; text: string[] }[]; // lines that are not, anchored before `line`
+}
+
+// Thin colored bar in the gutter, like the editor's own dirty-diff markers
+const gutterBar = (color: string) => vscode.Uri.parse(
+  'data:image/svg+xml;base64,' +
+  Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="4" height="16"><rect width="3" height="16" fill="${color}"/></svg>`).toString('base64'),
+);
+
+/**
+ * Cursor-style review inside the real editor.
+ *
+ * For every open file with a pending FileDiff, the hunk lines that are in
+ * the document are highlighted and the ones that are not are shown as ghost
+ * text with the full lines on hover. Each pending hunk gets Accept | Reject
+ * CodeLens entries that go through DiffManager.
+ *
+ * Auto/ask mode: Claude's lines are on disk (green), the originals are ghost
+ * text. Propose mode: the original is on disk, so the lines Claude would
+ * remove are red and the proposed lines are ghost text.
+ *
+ * A hunk whose lines no longer match the document (edited since) is left
+ * undecorated rather than pointing at the wrong lines.
+ */
+export class InlineReview implements vscode.CodeLensProvider {
+  private added = vscode.window.createTextEditorDecorationType({
+    isWholeLine: true,
+    backgroundColor: new vscode.ThemeColor('diffEditor.insertedLineBackground'),
+    overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.addedForeground'),
+    overviewRulerLane: vscode.OverviewRulerLane.Left,
+    gutterIconPath: gutterBar('#2ea843'),
+  });
+  private removed = vscode.window.createTextEditorDecorationType({
+    isWholeLine: true,
+    backgroundColor: new vscode.ThemeColor('diffEditor.removedLineBackground'),
+    overviewRulerColor: new vscode.ThemeColor('editorOverviewRuler.deletedForeground'),
+    overviewRulerLane: vscode.OverviewRulerLane.Left,
+    gutterIconPath: gutterBar('#f44336'),
+  });
+  private ghost = vscode.window.createTextEditorDecorationType({
+    after: {
+      color: new vscode.ThemeColor('editorGhostText.foreground'),
+      fontStyle: 'italic',
+      margin: '0 0 0 2em',
+    },
+  });
+
+  private _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+  constructor(
+    context: vscode.ExtensionContext,
+    private diffManager: DiffManager,
+  ) {
+    context.subscriptions.push(
+      this.added,
+      this.removed,
+      this.ghost,
+      vscode.languages.registerCodeLensProvider({ scheme: 'file' }, this),
+      diffManager.onDidChangeDiffs(() => this.refresh()),
+      vscode.window.onDidChangeVisibleTextEditors(() => this.refresh()),
+      vscode.workspace.onDidChangeTextDocument((e) => {
+        for (const editor of vscode.window.visibleTextEditors) {
+          if (editor.document === e.document) this.decorate(editor);
+        }
+      }),
+    );
+    this.refresh();
+  }
+
+  private refresh() {
+    for (const editor of vscode.window.visibleTextEditors) this.decorate(editor);
+    this._onDidChangeCodeLenses.fire();
+  }
+
+  private decorate(editor: vscode.TextEditor) {
+    const diff = this.pendingDiff(editor.document);
+    const ownLines: vscode.DecorationOptions[] = [];
+    const ghosts: vscode.DecorationOptions[] = [];
+
+    for (const placement of diff ? placeHunks(diff, editor.document) : []) {
+      for (const line of placement.present) ownLines.push({ range: editor.document.lineAt(line).range });
+      for (const block of placement.absent) ghosts.push(ghostText(editor.document, block, diff!.mode === 'propose'));
+    }
+
+    const proposed = diff?.mode === 'propose';
+    editor.setDecorations(this.added, proposed ? [] : ownLines);
+    editor.setDecorations(this.removed, proposed ? ownLines : []);
+    editor.setDecorations(this.ghost, ghosts);
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const diff = this.pendingDiff(document);
+    if (!diff || this.diffManager.isRunningIn(diff.root)) return [];
+
+    return placeHunks(diff, document).flatMap(({ hunk, firstChange }) => {
+      const range = document.lineAt(firstChange).range;
+      // A stale proposal can only be rejected — see FileDiff.staleBase
+      const accept = diff.staleBase ? [] : [new vscode.CodeLens(range, {
+        title: '✓ Accept',
+        command: 'claudediff.acceptHunk',
+        arguments: [diff.filePath, hunk.index],
+      })];
+      // Without a known original there is nothing to reject back to — see FileDiff.unknownBase
+      const reject = diff.unknownBase ? [] : [new vscode.CodeLens(range, {
+        title: '✕ Reject',
+        command: 'claudediff.rejectHunk',
+        arguments: [diff.filePath, hunk.index],
+      })];
+      return [...accept, ...reject];
+    });
+  }
+
+  /**
+   * Moves the cursor to the next (or previous) pending hunk, across files in
+   * path order, wrapping around at the end.
+   */
+  async goToChange(direction: 1 | -1) {
+    const stops: { filePath: string; line: number }[] = [];
+    const diffs = this.diffManager.getPendingDiffs().sort((a, b) => a.filePath.localeCompare(b.filePath));
+    for (const diff of diffs) {
+      const document = await openIfExists(diff.filePath);
+      if (!document) continue; // deleted by Claude — review it in the panel
+      for (const { firstChange } of placeHunks(diff, document)) stops.push({ filePath: diff.filePath, line: firstChange });
+    }
+    if (stops.length === 0) {
+      vscode.window.showInformationMessage('Claude Diff: No pending changes');
+      return;
+    }
+
+    const editor = vscode.window.activeTextEditor;
+    const here = editor ? { filePath: editor.document.uri.fsPath, line: editor.selection.active.line } : undefined;
+    const compare = (a: { filePath: string; line: number }, b: { filePath: string; line: number }) =>
+      a.filePath.localeCompare(b.filePath) || a.line - b.line;
+
+    const target = direction === 1
+      ? stops.find(s => !here || compare(s, here) > 0) ?? stops[0]
+      : [...stops].reverse().find(s => !here || compare(s, here) < 0) ?? stops[stops.length - 1];
+
+    const shown = await vscode.window.showTextDocument(vscode.Uri.file(target.filePath));
+    const position = new vscode.Position(target.line, 0);
+    shown.selection = new vscode.Selection(position, position);
+    shown.revealRange(new vscode.Range(position, position), vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+  }
+
+  private pendingDiff(document: vscode.TextDocument): FileDiff | undefined {
+    if (document.uri.scheme !== 'file') return undefined;
+    return this.diffManager.getPendingDiffs().find(d => d.filePath === document.uri.fsPath && !d.binary);
+  }
+}
+
+/**
+ * Places each pending hunk in the document. Lines of earlier rejected hunks
+ * have been reverted on disk (auto/ask), which shifts everything after them.
+ */
+function placeHunks(diff: FileDiff, document: vscode.TextDocument): HunkPlacement[] {
+  const proposed = diff.mode === 'propose';
+  const placements: HunkPlacement[] = [];
+  let shift = 0;
+
+  for (const hunk of diff.hunks) {
+    if (hunk.status === 'pending') {
+      const placement = placeHunk(hunk, (proposed ? hunk.oldStart : hunk.newStart) - 1 + shift, proposed, document);
+      if (placement) placements.push(placement);
+    }
+    if (!proposed && hunk.status === 'rejected') shift += hunk.oldLines - hunk.newLines;
+  }
+  return placements;
+}
+
+function placeHunk(hunk: DiffHunk, start: number, proposed: boolean, document: vscode.TextDocument): HunkPlacement | undefined {
+  const ownSign = proposed ? '-' : '+';
+  const otherSign = proposed ? '+' : '-';
+  const present: number[] = [];
+  const absent: HunkPlacement['absent'] = [];
+  let firstChange: number | undefined;
+  let line = start;
+
+  for (const raw of hunk.lines) {
+    const sign = raw[0];
+    const text = raw.slice(1).replace(/\r$/, '');
+    if (sign === '\\') continue;
+
+    if (sign === otherSign) {
+      firstChange ??= Math.min(line, document.lineCount - 1);
+      const last = absent[absent.length - 1];
+      if (last && last.line === line) last.text.push(text);
+      else absent.push({ line, text: [text] });
+      continue;
+    }
+
+    // Context or one of our own lines — must match what is in the document
+    if (line >= document.lineCount || document.lineAt(line).text !== text) return undefined;
+    if (sign === ownSign) {
+      firstChange ??= line;
+      present.push(line);
+    }
+    line++;
+  }
+
+  if (firstChange === undefined) return undefined;
+  return { hunk, firstChange: Math.max(firstChange, 0), present, absent };
+}
+
+/** The first missing line at the end of the line above, all of them on hover */
+function ghostText(document: vscode.TextDocument, block: HunkPlacement['absent'][number], proposed: boolean): vscode.DecorationOptions {
+  const anchor = Math.max(0, Math.min(block.line - 1, document.lineCount - 1));
+  const end = document.lineAt(anchor).range.end;
+  const more = block.text.length > 1 ? `  (+${block.text.length - 1} more)` : '';
+  const label = proposed ? 'Claude proposes' : 'Removed by Claude';
+
+  const hover = new vscode.MarkdownString(`**${label}:**`);
+  hover.appendCodeblock(block.text.join('\n'), document.languageId);
+
+  return {
+    range: new vscode.Range(end, end),
+    hoverMessage: hover,
+    renderOptions: {
+      after: { contentText: `${proposed ? '+' : '−'} ${block.text[0].trim()}${more}` },
+    },
+  };
+}
+
+async function openIfExists(filePath: string): Promise<vscode.TextDocument | undefined> {
+  try {
+    return await vscode.workspace.openTextDocument(vscode.Uri.file(filePath));
+  } catch {
+    return undefined;
+  }
+}
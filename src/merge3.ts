@@ -0,0 +1,127 @@
+import { diffArrays } from 'diff';
+
+export interface MergeResult {
+  content: string;
+  conflicts: number;        // 0 → `content` is a clean merge
+}
+
+/** A base range [start, end) replaced by `lines` on one side */
+interface Chunk {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+/**
+ * Line-based three-way merge of `ours` and `theirs` against their common
+ * `base`. Changes that overlap or touch on both sides are a conflict unless
+ * both sides made the same change — the same rule git uses. Conflicts are
+ * written with git-style markers so VS Code's merge decorations pick them up.
+ */
+export function merge3(
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: { ours: string; theirs: string },
+): MergeResult {
+  const baseLines = splitLines(base);
+  const a = changes(baseLines, splitLines(ours));
+  const b = changes(baseLines, splitLines(theirs));
+  const out: string[] = [];
+  let conflicts = 0;
+  let pos = 0;
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    // Gather the next cluster of chunks that overlap or touch
+    const start = Math.min(a[i]?.start ?? Infinity, b[j]?.start ?? Infinity);
+    let end = start;
+    const fromA: Chunk[] = [];
+    const fromB: Chunk[] = [];
+    let grew = true;
+    while (grew) {
+      grew = false;
+      if (i < a.length && a[i].start <= end) {
+        end = Math.max(end, a[i].end);
+        fromA.push(a[i++]);
+        grew = true;
+      }
+      if (j < b.length && b[j].start <= end) {
+        end = Math.max(end, b[j].end);
+        fromB.push(b[j++]);
+        grew = true;
+      }
+    }
+
+    out.push(...baseLines.slice(pos, start));
+    const sideA = applyChunks(baseLines, start, end, fromA);
+    const sideB = applyChunks(baseLines, start, end, fromB);
+
+    if (fromB.length === 0 || sideA.join('') === sideB.join('')) {
+      out.push(...sideA);
+    } else if (fromA.length === 0) {
+      out.push(...sideB);
+    } else {
+      conflicts++;
+      out.push(
+        `<<<<<<< ${labels.ours}\n`,
+        ...terminated(sideA),
+        '=======\n',
+        ...terminated(sideB),
+        `>>>>>>> ${labels.theirs}\n`,
+      );
+    }
+    pos = end;
+  }
+
+  out.push(...baseLines.slice(pos));
+  return { content: out.join(''), conflicts };
+}
+
+/** Splits into lines, keeping each line's terminator */
+export function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+function changes(base: string[], other: string[]): Chunk[] {
+  const chunks: Chunk[] = [];
+  let current: Chunk | undefined;
+  let pos = 0;
+
+  for (const part of diffArrays(base, other)) {
+    if (!part.added && !part.removed) {
+      if (current) chunks.push(current);
+      current = undefined;
+      pos += part.value.length;
+      continue;
+    }
+    current ??= { start: pos, end: pos, lines: [] };
+    if (part.removed) {
+      pos += part.value.length;
+      current.end = pos;
+    } else {
+      current.lines.push(...part.value);
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/** Base lines [start, end) with the given chunks applied */
+function applyChunks(base: string[], start: number, end: number, chunks: Chunk[]): string[] {
+  const out: string[] = [];
+  let pos = start;
+  for (const chunk of chunks) {
+    out.push(...base.slice(pos, chunk.start), ...chunk.lines);
+    pos = chunk.end;
+  }
+  out.push(...base.slice(pos, end));
+  return out;
+}
+
+/** Makes sure a conflict side ends with a newline so the next marker starts on its own line */
+function terminated(lines: string[]): string[] {
+  const last = lines[lines.length - 1];
+  return last === undefined || last.endsWith('\n') ? lines : [...lines.slice(0, -1), last + '\n'];
+}
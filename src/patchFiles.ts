@@ -0,0 +1,416 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { deflateSync, inflateSync } from 'zlib';
+import { DiffManager, FileDiff, formatHunkHeader, gitMode } from './diffManager';
+import { splitLines } from './merge3';
+
+/** One file's section of a patch */
+interface FilePatch {
+  oldPath?: string;         // '/'-separated; undefined → the file is created
+  newPath?: string;         // undefined → the file is deleted
+  hunks: PatchHunk[];
+  binary?: Buffer;          // new content from a `GIT binary patch` literal
+  mode?: string;            // from `new file mode` or `new mode`
+  unsupported?: string;     // why this section cannot be imported
+}
+
+interface PatchHunk {
+  oldStart: number;         // as written in the header
+  oldLines: number;
+  lines: string[];          // each prefixed with ' ', '+', '-' or '\'
+}
+
+// Alphabet of git's base85 encoding for binary patches
+const BASE85 = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz!#$%&()*+-;<=>?@^_`{|}~';
+const NULL_SHA = '0'.repeat(40);
+
+/**
+ * Saves `diffs` as a single git-style patch that `git apply` accepts.
+ *
+ * Rejected hunks are left out, so the patch is the change as reviewed so
+ * far. Paths are relative to the workspace folder; when the diffs span
+ * several folders each path starts with its folder's name instead.
+ */
+export async function exportPatch(diffs: FileDiff[]) {
+  const roots = new Set(diffs.map(d => d.root));
+  const name = (diff: FileDiff, rel: string) => (roots.size > 1 ? folderName(diff.root) + '/' : '') + toPosix(rel);
+  const text = diffs.map(d => formatFilePatch(d, name(d, d.relativePath), name(d, d.oldRelativePath ?? d.relativePath))).join('');
+  if (!text) {
+    vscode.window.showInformationMessage('Claude Diff: Nothing to export');
+    return;
+  }
+
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.join(roots.size === 1 ? [...roots][0] : path.dirname([...roots][0]), 'claude-changes.patch')),
+    filters: { Patches: ['patch', 'diff'] },
+    saveLabel: 'Export Patch',
+  });
+  if (!target) return;
+
+  fs.writeFileSync(target.fsPath, text);
+  const files = text.split('\ndiff --git ').length;
+  vscode.window.showInformationMessage(`Claude Diff: Exported ${files} file${files === 1 ? '' : 's'} to ${path.basename(target.fsPath)}`);
+}
+
+/**
+ * Loads a `.patch`/`.diff` file into DiffManager as pending changes. The
+ * patch is applied in memory against the files on disk, which stay
+ * untouched until its changes are accepted. Returns the number of files
+ * imported.
+ */
+export async function importPatch(diffManager: DiffManager): Promise<number> {
+  const picked = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    filters: { Patches: ['patch', 'diff'], 'All files': ['*'] },
+    openLabel: 'Import Patch',
+  });
+  if (!picked) return 0;
+
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  const folder = folders.length > 1
+    ? await vscode.window.showWorkspaceFolderPick({ placeHolder: 'Apply the patch relative to which folder?' })
+    : folders[0];
+  if (!folder) return 0;
+  const root = folder.uri.fsPath;
+
+  if (diffManager.isRunningIn(root)) {
+    vscode.window.showWarningMessage('Claude is still writing — wait for the run to finish');
+    return 0;
+  }
+
+  const patches = parsePatch(fs.readFileSync(picked[0].fsPath, 'utf8'));
+  const changes: { relativePath: string; before?: Buffer; after?: Buffer; mode?: string }[] = [];
+  const failed: string[] = [];
+
+  for (const patch of patches) {
+    const name = patch.newPath ?? patch.oldPath ?? '?';
+    const paths = [patch.oldPath, patch.newPath].filter((p): p is string => p !== undefined);
+    if (patch.unsupported || paths.length === 0 || paths.some(p => !insideRoot(root, p))) {
+      failed.push(`${name} (${patch.unsupported ?? 'outside the folder'})`);
+      continue;
+    }
+
+    const before = patch.oldPath !== undefined ? readIfExists(root, patch.oldPath) : undefined;
+    if (patch.oldPath !== undefined && before === undefined) {
+      failed.push(`${name} (not found)`);
+      continue;
+    }
+    const existing = patch.newPath !== undefined && patch.newPath !== patch.oldPath
+      ? readIfExists(root, patch.newPath)
+      : undefined;
+    if (existing !== undefined) {
+      failed.push(`${name} (already exists)`);
+      continue;
+    }
+
+    const after = patch.binary ?? applyHunks(before?.toString('utf8') ?? '', patch.hunks);
+    if (after === undefined) {
+      failed.push(`${name} (does not apply)`);
+      continue;
+    }
+
+    const content = typeof after === 'string' ? Buffer.from(after) : after;
+    if (patch.newPath === patch.oldPath) {
+      changes.push({ relativePath: fromPosix(patch.newPath!), before, after: content, mode: patch.mode });
+    } else {
+      // Creation, deletion, or a rename as both
+      if (patch.oldPath !== undefined) changes.push({ relativePath: fromPosix(patch.oldPath), before });
+      if (patch.newPath !== undefined) changes.push({ relativePath: fromPosix(patch.newPath), after: content, mode: patch.mode });
+    }
+  }
+
+  if (failed.length > 0) {
+    vscode.window.showWarningMessage(`Claude Diff: Skipped ${failed.length} file${failed.length === 1 ? '' : 's'} from the patch — ${failed.join(', ')}`);
+  }
+  if (changes.length === 0) {
+    if (failed.length === 0) vscode.window.showInformationMessage('Claude Diff: The patch contains no changes');
+    return 0;
+  }
+  return diffManager.importChanges(root, changes).length;
+}
+
+/** A diff in git's format: extended headers, then text hunks or a binary patch */
+function formatFilePatch(diff: FileDiff, rel: string, oldRel: string): string {
+  const included = diff.hunks.filter(h => h.status !== 'rejected');
+  if (included.length === 0 && diff.hunks.length > 0) return '';
+
+  const deleted = diff.isDeleted && included.length === diff.hunks.length;
+  const out = [`diff --git a/${oldRel} b/${rel}`];
+  if (diff.isNew) out.push(`new file mode ${diff.fileMode ? gitMode(diff.fileMode) : '100644'}`);
+  if (deleted) out.push('deleted file mode 100644');
+  if (diff.oldFileMode && diff.fileMode && !diff.isNew && !deleted) {
+    out.push(`old mode ${gitMode(diff.oldFileMode)}`, `new mode ${gitMode(diff.fileMode)}`);
+  }
+  if (diff.oldPath) out.push(`rename from ${oldRel}`, `rename to ${rel}`);
+
+  if (diff.binary) {
+    const before = diff.binary.before?.data;
+    const after = diff.binary.after?.data;
+    out.push(`index ${before ? blobSha(before) : NULL_SHA}..${after ? blobSha(after) : NULL_SHA}`);
+    out.push('GIT binary patch', ...encodeLiteral(after ?? Buffer.alloc(0)), '', ...encodeLiteral(before ?? Buffer.alloc(0)), '');
+    return out.join('\n') + '\n';
+  }
+
+  // The empty hunk of a move, a chmod or an empty file has nothing to write
+  const changes = included.filter(h => h.lines.length > 0);
+  if (changes.length > 0) {
+    out.push(diff.isNew ? '--- /dev/null' : `--- a/${oldRel}`);
+    out.push(deleted ? '+++ /dev/null' : `+++ b/${rel}`);
+  }
+  // Leaving out rejected hunks shifts the new-side line numbers of the rest
+  let shift = 0;
+  const oldCount = splitLines(diff.before).length;
+  const newCount = splitLines(diff.after).length;
+  for (const hunk of changes) {
+    out.push(
+      formatHunkHeader(hunk.oldStart, hunk.oldLines, hunk.oldStart + shift, hunk.newLines),
+      ...withEofMarkers(
+        hunk.lines,
+        lacksFinalNewline(diff.before) && hunk.oldStart - 1 + hunk.oldLines >= oldCount,
+        lacksFinalNewline(diff.after) && hunk.newStart - 1 + hunk.newLines >= newCount,
+      ),
+    );
+    shift += hunk.newLines - hunk.oldLines;
+  }
+  return out.join('\n') + '\n';
+}
+
+/**
+ * Hunk lines with `\ No newline at end of file` after the last line of each
+ * side that ends the file without one. Rebuilt from the content: jsdiff
+ * puts the marker on the wrong side when the other is empty (a created or
+ * deleted file).
+ */
+function withEofMarkers(lines: string[], oldAtEof: boolean, newAtEof: boolean): string[] {
+  const body = lines.filter(l => l[0] !== '\\');
+  const lastOld = oldAtEof ? lastIndex(body, l => l[0] !== '+') : -1;
+  const lastNew = newAtEof ? lastIndex(body, l => l[0] !== '-') : -1;
+  const out: string[] = [];
+  body.forEach((line, i) => {
+    out.push(line);
+    if (i === lastOld || i === lastNew) out.push('\\ No newline at end of file');
+  });
+  return out;
+}
+
+function lastIndex(lines: string[], test: (line: string) => boolean): number {
+  for (let i = lines.length - 1; i >= 0; i--) if (test(lines[i])) return i;
+  return -1;
+}
+
+function lacksFinalNewline(text: string): boolean {
+  return text !== '' && !text.endsWith('\n');
+}
+
+/**
+ * Reads git-style and plain unified diffs. Sections start at `diff --git`,
+ * or at a `---` line when there is none.
+ */
+function parsePatch(text: string): FilePatch[] {
+  const lines = text.split('\n');
+  const patches: FilePatch[] = [];
+  let current: FilePatch | undefined;
+  let sawOld = false;       // current section already had its `---` line
+
+  const start = (patch: FilePatch) => {
+    patches.push(patch);
+    current = patch;
+    sawOld = false;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, '');
+    let match: RegExpExecArray | null;
+
+    if ((match = /^diff --git (.+?) (.+)$/.exec(line))) {
+      start({ oldPath: stripPrefix(match[1]), newPath: stripPrefix(match[2]), hunks: [] });
+    } else if (!current) {
+      if (line.startsWith('--- ')) {
+        start({ hunks: [] });
+        i--;                // read the `---` line again as part of the section
+      }
+    } else if (line.startsWith('new file mode')) {
+      current.oldPath = undefined;
+      current.mode = line.slice('new file mode'.length).trim();
+    } else if (line.startsWith('new mode ')) {
+      current.mode = line.slice('new mode '.length).trim();
+    } else if (line.startsWith('deleted file mode')) {
+      current.newPath = undefined;
+    } else if (line.startsWith('rename from ')) {
+      current.oldPath = unquote(line.slice('rename from '.length));
+    } else if (line.startsWith('rename to ')) {
+      current.newPath = unquote(line.slice('rename to '.length));
+    } else if (line.startsWith('--- ')) {
+      if (sawOld || current.hunks.length > 0) {
+        start({ hunks: [] });
+      }
+      current!.oldPath = headerPath(line.slice(4));
+      sawOld = true;
+    } else if (line.startsWith('+++ ')) {
+      current.newPath = headerPath(line.slice(4));
+    } else if ((match = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line))) {
+      const hunk: PatchHunk = { oldStart: Number(match[1]), oldLines: Number(match[2] ?? 1), lines: [] };
+      let oldLeft = hunk.oldLines;
+      let newLeft = Number(match[4] ?? 1);
+      while ((oldLeft > 0 || newLeft > 0) && i + 1 < lines.length) {
+        // Some tools strip the space from empty context lines
+        const body = lines[++i] === '' ? ' ' : lines[i];
+        if (body[0] === ' ') { oldLeft--; newLeft--; } else if (body[0] === '-') oldLeft--;
+        else if (body[0] === '+') newLeft--;
+        else if (body[0] !== '\\') { i--; break; }
+        hunk.lines.push(body);
+      }
+      if (lines[i + 1]?.startsWith('\\')) hunk.lines.push(lines[++i]);
+      current.hunks.push(hunk);
+    } else if (line === 'GIT binary patch') {
+      const [kind, size] = (lines[++i] ?? '').trim().split(' ');
+      const data: string[] = [];
+      while (i + 1 < lines.length && lines[i + 1].trim() !== '') data.push(lines[++i].trim());
+      if (kind === 'literal') {
+        current.binary = decodeLiteral(data, Number(size));
+        if (!current.binary) current.unsupported = 'corrupt binary patch';
+      } else {
+        current.unsupported = 'binary delta patches are not supported';
+      }
+      // The reverse patch that follows is not needed
+      i++;
+      while (i + 1 < lines.length && lines[i + 1].trim() !== '') i++;
+    } else if (line.startsWith('Binary files ')) {
+      current.unsupported = 'binary change without its content';
+    }
+  }
+  return patches;
+}
+
+/**
+ * Applies hunks to `source` the way `git apply` does: each hunk must match
+ * exactly, at its stated line or the nearest place after the previous hunk.
+ * Returns undefined if one does not match.
+ */
+function applyHunks(source: string, hunks: PatchHunk[]): string | undefined {
+  const lines = splitLines(source);
+  const out: string[] = [];
+  let pos = 0;
+
+  for (const hunk of hunks) {
+    const oldSide = hunkSide(hunk, '-');
+    // An empty range points at the line before it
+    const expected = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const at = locate(lines, oldSide, expected, pos);
+    if (at === undefined) return undefined;
+    out.push(...lines.slice(pos, at), ...hunkSide(hunk, '+'));
+    pos = at + oldSide.length;
+  }
+  out.push(...lines.slice(pos));
+  return out.join('');
+}
+
+/** One side of a hunk as raw lines, terminators included */
+function hunkSide(hunk: PatchHunk, sign: '-' | '+'): string[] {
+  const side: string[] = [];
+  hunk.lines.forEach((line, i) => {
+    if (line[0] !== ' ' && line[0] !== sign) return;
+    const noNewline = hunk.lines[i + 1]?.startsWith('\\');
+    side.push(line.slice(1) + (noNewline ? '' : '\n'));
+  });
+  return side;
+}
+
+function locate(lines: string[], block: string[], expected: number, from: number): number | undefined {
+  const matches = (at: number) => block.every((line, j) => lines[at + j] === line);
+  const last = lines.length - block.length;
+  for (let offset = 0; offset <= lines.length; offset++) {
+    for (const at of [expected + offset, expected - offset]) {
+      if (at >= from && at <= last && matches(at)) return at;
+    }
+  }
+  return undefined;
+}
+
+/** Deflated content in git's base85 lines, each prefixed with its byte count */
+function encodeLiteral(data: Buffer): string[] {
+  const zipped = deflateSync(data);
+  const out = [`literal ${data.length}`];
+  for (let i = 0; i < zipped.length; i += 52) {
+    const chunk = zipped.subarray(i, i + 52);
+    let line = String.fromCharCode(chunk.length <= 26 ? 64 + chunk.length : 70 + chunk.length);
+    for (let j = 0; j < chunk.length; j += 4) {
+      let value = 0;
+      for (let k = 0; k < 4; k++) value = value * 256 + (chunk[j + k] ?? 0);
+      let group = '';
+      for (let k = 0; k < 5; k++) {
+        group = BASE85[value % 85] + group;
+        value = Math.floor(value / 85);
+      }
+      line += group;
+    }
+    out.push(line);
+  }
+  return out;
+}
+
+function decodeLiteral(lines: string[], size: number): Buffer | undefined {
+  const bytes: number[] = [];
+  for (const line of lines) {
+    const code = line.charCodeAt(0);
+    const count = code <= 90 ? code - 64 : code - 70;
+    const decoded: number[] = [];
+    for (let j = 1; j + 5 <= line.length; j += 5) {
+      let value = 0;
+      for (let k = 0; k < 5; k++) value = value * 85 + BASE85.indexOf(line[j + k]);
+      decoded.push(value >>> 24, (value >>> 16) & 255, (value >>> 8) & 255, value & 255);
+    }
+    bytes.push(...decoded.slice(0, count));
+  }
+  try {
+    const data = inflateSync(Buffer.from(bytes));
+    return data.length === size ? data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** The object id git gives `data` as a blob */
+function blobSha(data: Buffer): string {
+  return createHash('sha1').update(`blob ${data.length}\0`).update(data).digest('hex');
+}
+
+/** Path from a `---`/`+++` line: no timestamp, no a/ or b/ prefix; undefined for /dev/null */
+function headerPath(raw: string): string | undefined {
+  const name = raw.split('\t')[0].trim();
+  return name === '/dev/null' ? undefined : stripPrefix(name);
+}
+
+function stripPrefix(name: string): string {
+  return unquote(name).replace(/^[ab]\//, '');
+}
+
+/** git quotes paths with unusual characters — undo the common escapes */
+function unquote(name: string): string {
+  if (!name.startsWith('"')) return name;
+  return name.slice(1, -1).replace(/\\(["\\])/g, '$1').replace(/\\t/g, '\t').replace(/\\n/g, '\n');
+}
+
+function readIfExists(root: string, rel: string): Buffer | undefined {
+  const fp = path.join(root, fromPosix(rel));
+  return fs.existsSync(fp) ? fs.readFileSync(fp) : undefined;
+}
+
+function insideRoot(root: string, rel: string): boolean {
+  const relative = path.relative(root, path.join(root, fromPosix(rel)));
+  return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function folderName(root: string): string {
+  return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(root))?.name ?? path.basename(root);
+}
+
+function toPosix(p: string): string {
+  return p.split(path.sep).join('/');
+}
+
+function fromPosix(p: string): string {
+  return p.split('/').join(path.sep);
+}
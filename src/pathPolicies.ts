@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import ignore, { Ignore } from 'ignore';
+
+export type PathPolicy = 'auto' | 'propose' | 'block';
+
+// Least to most strict
+const POLICIES: PathPolicy[] = ['auto', 'propose', 'block'];
+
+export interface PolicyRule {
+  pattern: string;
+  policy: PathPolicy;
+}
+
+/**
+ * The `claudediff.pathPolicies` rules of a workspace folder: patterns in
+ * gitignore syntax, relative to the folder, mapped to how Claude's changes
+ * there are handled whatever the edit mode:
+ *
+ *   auto    → accepted without review
+ *   propose → held for review
+ *   block   → rolled back (or, for a proposal, discarded) as soon as the run ends
+ *
+ * When several patterns match a path the last one listed wins, as in a
+ * .gitignore. Paths no pattern matches follow the edit mode. Settings are
+ * read when the object is created.
+ */
+export class PathPolicies {
+  private rules: (PolicyRule & { matcher: Ignore })[];
+
+  constructor(root: string) {
+    const config = vscode.workspace
+      .getConfiguration('claudediff', vscode.Uri.file(root))
+      .get<Record<string, string>>('pathPolicies', {});
+    this.rules = Object.entries(config).flatMap(([pattern, policy]) => {
+      if (!POLICIES.includes(policy as PathPolicy)) {
+        console.warn(`[ClaudeDiff] Ignoring path policy "${pattern}": unknown policy "${policy}"`);
+        return [];
+      }
+      return [{ pattern, policy: policy as PathPolicy, matcher: ignore().add(pattern) }];
+    });
+  }
+
+  get isEmpty(): boolean {
+    return this.rules.length === 0;
+  }
+
+  /**
+   * The rule for a file, given its path relative to the folder. A moved file
+   * passes both of its paths and gets the stricter of their rules.
+   */
+  match(...relativePaths: (string | undefined)[]): PolicyRule | undefined {
+    let strictest: PolicyRule | undefined;
+    for (const rel of relativePaths) {
+      const rule = rel ? this.ruleFor(rel.split(path.sep).join('/')) : undefined;
+      if (rule && (!strictest || POLICIES.indexOf(rule.policy) > POLICIES.indexOf(strictest.policy))) {
+        strictest = rule;
+      }
+    }
+    return strictest;
+  }
+
+  private ruleFor(posix: string): PolicyRule | undefined {
+    for (let i = this.rules.length - 1; i >= 0; i--) {
+      const { pattern, policy, matcher } = this.rules[i];
+      if (matcher.ignores(posix)) return { pattern, policy };
+    }
+    return undefined;
+  }
+}
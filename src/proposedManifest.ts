@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Format of `.claude/proposed/manifest.json`, written next to the staged
+ * files by whatever stages a proposal. Without a manifest every staged file
+ * is a create or modify of the same path; with one, a proposal can also
+ * delete and move files. Nothing here may import 'vscode'.
+ *
+ *   {
+ *     "version": 1,
+ *     "entries": [
+ *       { "op": "modify", "path": "src/app.ts", "baseSha256": "…" },
+ *       { "op": "create", "path": "bin/run.sh", "mode": "100755" },
+ *       { "op": "delete", "path": "src/old.ts", "baseSha256": "…" },
+ *       { "op": "rename", "from": "src/a.ts", "to": "lib/a.ts", "baseSha256": "…" }
+ *     ]
+ *   }
+ *
+ * Paths are '/'-separated and relative to the workspace folder. New content
+ * of a create, modify or rename is staged at `.claude/proposed/<path>` (a
+ * rename without one keeps its content). `baseSha256` is the sha256 of the
+ * original file when the change was staged; `mode` is a git-style octal
+ * file mode to set once the change is accepted.
+ */
+export interface ProposedManifest {
+  version: 1;
+  entries: ManifestEntry[];
+}
+
+export type ManifestEntry =
+  | { op: 'create'; path: string; mode?: string }
+  | { op: 'modify'; path: string; mode?: string; baseSha256?: string }
+  | { op: 'delete'; path: string; baseSha256?: string }
+  | { op: 'rename'; from: string; to: string; mode?: string; baseSha256?: string };
+
+export const MANIFEST_FILE = 'manifest.json';
+
+export function manifestPath(proposedDir: string): string {
+  return path.join(proposedDir, MANIFEST_FILE);
+}
+
+/** The manifest in `proposedDir`, if there is one. Malformed entries are skipped. */
+export function readManifest(proposedDir: string): ProposedManifest | undefined {
+  const file = manifestPath(proposedDir);
+  if (!fs.existsSync(file)) return undefined;
+
+  let raw: { entries?: unknown };
+  try {
+    raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (e) {
+    console.warn(`[ClaudeDiff] Ignoring unreadable ${file}:`, e);
+    return undefined;
+  }
+
+  const entries = (Array.isArray(raw?.entries) ? raw.entries : []).filter((entry: unknown) => {
+    if (isEntry(entry)) return true;
+    console.warn('[ClaudeDiff] Skipping malformed manifest entry:', entry);
+    return false;
+  });
+  return { version: 1, entries };
+}
+
+function isEntry(value: unknown): value is ManifestEntry {
+  const entry = value as Record<string, unknown> | null;
+  if (!entry || typeof entry !== 'object') return false;
+  const optional = (key: string) => entry[key] === undefined || typeof entry[key] === 'string';
+  if (!optional('mode') || !optional('baseSha256')) return false;
+
+  switch (entry.op) {
+    case 'create':
+    case 'modify':
+    case 'delete':
+      return isRelative(entry.path);
+    case 'rename':
+      return isRelative(entry.from) && isRelative(entry.to);
+    default:
+      return false;
+  }
+}
+
+/** A path inside the workspace folder — no absolute paths, no way out via '..' */
+function isRelative(value: unknown): value is string {
+  if (typeof value !== 'string' || value === '') return false;
+  // On Windows a backslash separates too, and a drive letter makes the path absolute
+  const posix = value.replace(/\\/g, '/');
+  if (path.posix.isAbsolute(posix) || path.win32.isAbsolute(value) || /^[a-z]:/i.test(posix)) return false;
+  const normalized = path.posix.normalize(posix);
+  return normalized !== '.' && !normalized.split('/').includes('..');
+}
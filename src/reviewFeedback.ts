@@ -0,0 +1,152 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DiffHunk, DiffManager, FileDiff } from './diffManager';
+import { SessionHistory } from './sessionHistory';
+
+// Hunks longer than this are quoted only in part — Claude can read the file
+const MAX_QUOTED_LINES = 40;
+
+/**
+ * Sends the review back to Claude as a follow-up prompt: every comment with
+ * the file, line range and quoted change it is about, plus the files whose
+ * changes were rejected.
+ *
+ * The prompt is pasted into a terminal running Claude Code, where it waits
+ * for Enter so it can still be edited, or written to the well-known file
+ * `.claude/claude-diff/feedback.md` in the workspace folder. The session is
+ * marked as answered so the next run there is shown as its follow-up.
+ */
+export class ReviewFeedback {
+  static readonly feedbackFile = path.join('.claude', 'claude-diff', 'feedback.md');
+
+  constructor(
+    private diffManager: DiffManager,
+    private history: SessionHistory,
+  ) {}
+
+  /** Entry point for the "Send Review Feedback to Claude" command */
+  async send() {
+    const roots = [...new Set(this.diffManager.getAllDiffs().filter(hasFeedback).map(d => d.root))];
+    if (roots.length === 0) {
+      vscode.window.showInformationMessage('Claude Diff: Add a comment or reject a change first — there is no feedback to send');
+      return;
+    }
+    const root = roots.length > 1 ? await this.pickFolder(roots) : roots[0];
+    if (!root) return;
+    if (this.diffManager.isRunningIn(root)) {
+      vscode.window.showWarningMessage('Claude is still writing — wait for the run to finish');
+      return;
+    }
+
+    const prompt = buildFeedbackPrompt(this.diffManager.getAllDiffs().filter(d => d.root === root));
+    const target = await this.pickTarget();
+    if (!target) return;
+
+    if (target.terminal) {
+      target.terminal.show();
+      // Bracketed paste, so the line breaks do not submit the prompt early
+      target.terminal.sendText(`\x1b[200~${prompt}\x1b[201~`, false);
+      vscode.window.showInformationMessage(`Claude Diff: Feedback pasted into "${target.terminal.name}" — press Enter there to send it`);
+    } else {
+      const file = path.join(root, ReviewFeedback.feedbackFile);
+      try {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, prompt);
+      } catch (e) {
+        vscode.window.showErrorMessage(`Claude Diff: Could not write ${ReviewFeedback.feedbackFile} — ${e}`);
+        return;
+      }
+      vscode.commands.executeCommand('vscode.open', vscode.Uri.file(file));
+      vscode.window.showInformationMessage(`Claude Diff: Feedback written to ${ReviewFeedback.feedbackFile}`);
+    }
+    this.history.markFeedbackSent(root);
+  }
+
+  private async pickFolder(roots: string[]): Promise<string | undefined> {
+    const picked = await vscode.window.showQuickPick(
+      roots.map(root => ({
+        label: vscode.workspace.getWorkspaceFolder(vscode.Uri.file(root))?.name ?? path.basename(root),
+        description: root,
+        root,
+      })),
+      { placeHolder: 'Send feedback on the changes in which folder?' },
+    );
+    return picked?.root;
+  }
+
+  /** A terminal to paste into — Claude Code terminals first — or the feedback file */
+  private async pickTarget(): Promise<{ terminal?: vscode.Terminal } | undefined> {
+    const isClaude = (t: vscode.Terminal) => /claude/i.test(t.name);
+    const terminals = [...vscode.window.terminals].sort((a, b) => Number(isClaude(b)) - Number(isClaude(a)));
+    const items = [
+      ...terminals.map(terminal => ({
+        label: `$(terminal) ${terminal.name}`,
+        description: isClaude(terminal) ? 'Claude Code' : undefined,
+        terminal,
+      })),
+      { label: `$(file) Write to ${ReviewFeedback.feedbackFile}`, description: undefined, terminal: undefined },
+    ];
+    if (items.length === 1) return items[0];
+    return vscode.window.showQuickPick(items, { placeHolder: 'Send the feedback where?' });
+  }
+}
+
+/** True if the file has a comment or a rejected change to report */
+export function hasFeedback(diff: FileDiff): boolean {
+  return !!diff.comment || diff.hunks.some(h => h.comment || h.status === 'rejected');
+}
+
+/** The follow-up prompt for one folder's review, as Markdown */
+export function buildFeedbackPrompt(diffs: FileDiff[]): string {
+  const name = (d: FileDiff) => d.oldRelativePath ? `${d.oldRelativePath} → ${d.relativePath}` : d.relativePath;
+  const comments: string[] = [];
+  for (const diff of diffs) {
+    if (diff.comment) comments.push(`### ${name(diff)}\n\n${quote(diff.comment)}`);
+    for (const hunk of diff.hunks.filter(h => h.comment)) {
+      // Binary files and moves without content changes have no lines to point at
+      const hasLines = !diff.binary && hunk.lines.length > 0;
+      comments.push([
+        `### ${name(diff)}${hasLines ? `, ${lineRange(hunk)}` : ''} (${hunk.status === 'pending' ? 'not yet decided' : hunk.status})`,
+        hasLines ? fenced(quotedHunk(hunk)) : '',
+        quote(hunk.comment!),
+      ].filter(Boolean).join('\n\n'));
+    }
+  }
+
+  const rejected = diffs.flatMap((diff) => {
+    const count = diff.hunks.filter(h => h.status === 'rejected').length;
+    if (count === 0) return [];
+    if (count === diff.hunks.length) return [`- ${name(diff)} — all changes rejected`];
+    return [`- ${name(diff)} — ${count} of ${diff.hunks.length} changes rejected`];
+  });
+
+  const sections = ['I reviewed your changes. Please address this feedback.'];
+  if (comments.length > 0) sections.push('## Comments', ...comments);
+  if (rejected.length > 0) sections.push('## Rejected', rejected.join('\n'));
+  return sections.join('\n\n') + '\n';
+}
+
+/** Where the change is in the file as Claude left it, or where its lines were removed */
+function lineRange(hunk: DiffHunk): string {
+  if (hunk.newLines === 0) return `line ${hunk.oldStart} (removed lines)`;
+  const end = hunk.newStart + hunk.newLines - 1;
+  return end === hunk.newStart ? `line ${hunk.newStart}` : `lines ${hunk.newStart}–${end}`;
+}
+
+function quotedHunk(hunk: DiffHunk): string {
+  const lines = hunk.lines.slice(0, MAX_QUOTED_LINES);
+  if (hunk.lines.length > MAX_QUOTED_LINES) lines.push(`… ${hunk.lines.length - MAX_QUOTED_LINES} more lines`);
+  return [hunk.header, ...lines].join('\n');
+}
+
+/** A diff code block whose fence is longer than any run of backticks inside it */
+function fenced(code: string): string {
+  const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longest + 1));
+  return `${fence}diff\n${code}\n${fence}`;
+}
+
+function quote(text: string): string {
+  return text.split(/\r?\n/).map(line => `> ${line}`).join('\n');
+}
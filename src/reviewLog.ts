@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DiffStatus } from './diffManager';
+
+/** A file as one review action found or left it */
+export interface FileState {
+  statuses: DiffStatus[];   // per hunk
+  disk?: string;            // base64 content; undefined → no file
+  staged?: string;          // propose mode: base64 staged copy; undefined → none
+  oldDisk?: string;         // moved files: base64 content at the old path
+}
+
+export interface ReviewStep {
+  filePath: string;
+  oldPath?: string;         // moved files: the path they came from
+  root: string;
+  proposedDir?: string;     // propose mode: where `staged` goes back to
+  before: FileState;
+  after: FileState;
+}
+
+/** One user action — a single accept/reject, or a bulk one like Reject All */
+export interface ReviewAction {
+  label: string;
+  time: number;
+  steps: ReviewStep[];
+}
+
+interface LogFile {
+  undo: ReviewAction[];
+  redo: ReviewAction[];
+}
+
+/**
+ * Undo and redo stacks of review actions, saved to
+ * `<storage>/review-log.json` after every change so they survive a window
+ * reload. Only the latest actions are kept, and a folder's entries are
+ * dropped when Claude starts a new run there.
+ */
+export class ReviewLog {
+  private static readonly maxActions = 50;
+
+  private undoStack: ReviewAction[] = [];
+  private redoStack: ReviewAction[] = [];
+  private readonly file: string;
+
+  constructor(storageDir: string) {
+    this.file = path.join(storageDir, 'review-log.json');
+    this.load();
+  }
+
+  get nextUndo(): ReviewAction | undefined {
+    return this.undoStack[this.undoStack.length - 1];
+  }
+
+  get nextRedo(): ReviewAction | undefined {
+    return this.redoStack[this.redoStack.length - 1];
+  }
+
+  /** A new action — anything that could be redone is now stale */
+  record(action: ReviewAction) {
+    this.undoStack.push(action);
+    this.undoStack.splice(0, this.undoStack.length - ReviewLog.maxActions);
+    this.redoStack = [];
+    this.save();
+  }
+
+  /** Moves the last action to the redo stack and returns it */
+  popUndo(): ReviewAction | undefined {
+    const action = this.undoStack.pop();
+    if (action) {
+      this.redoStack.push(action);
+      this.save();
+    }
+    return action;
+  }
+
+  /** Moves the last undone action back to the undo stack and returns it */
+  popRedo(): ReviewAction | undefined {
+    const action = this.redoStack.pop();
+    if (action) {
+      this.undoStack.push(action);
+      this.save();
+    }
+    return action;
+  }
+
+  /** Forgets every action that touched `root` */
+  dropRoot(root: string) {
+    const keep = (a: ReviewAction) => !a.steps.some(s => s.root === root);
+    const undo = this.undoStack.filter(keep);
+    const redo = this.redoStack.filter(keep);
+    if (undo.length === this.undoStack.length && redo.length === this.redoStack.length) return;
+    this.undoStack = undo;
+    this.redoStack = redo;
+    this.save();
+  }
+
+  private load() {
+    try {
+      const log: LogFile = JSON.parse(fs.readFileSync(this.file, 'utf8'));
+      this.undoStack = log.undo ?? [];
+      this.redoStack = log.redo ?? [];
+    } catch {
+      // No log yet
+    }
+  }
+
+  private save() {
+    try {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      const log: LogFile = { undo: this.undoStack, redo: this.redoStack };
+      fs.writeFileSync(this.file, JSON.stringify(log));
+    } catch (e) {
+      console.warn('[ClaudeDiff] Could not save the review log:', e);
+    }
+  }
+}
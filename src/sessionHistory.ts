@@ -0,0 +1,323 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DiffManager, DiffStatus, FileDiff } from './diffManager';
+import { ClaudeMode } from './claudeModeManager';
+
+export interface SessionFileRecord {
+  filePath: string;
+  relativePath: string;
+  before: string;
+  after: string;
+  encoding?: 'base64';      // binary files: before/after hold the bytes in base64
+  status: DiffStatus;
+  isNew: boolean;
+  isDeleted: boolean;
+  unknownBefore?: boolean;  // the original was never captured, so `before` is empty
+  oldPath?: string;         // moved files: where `before` was
+  comments?: ReviewComment[];
+}
+
+/** A reviewer's note on a file, or on one change in it */
+export interface ReviewComment {
+  hunk?: string;            // the change's "@@ … @@" header; absent → the whole file
+  text: string;
+}
+
+/** What the watcher knows about a run when it starts */
+export interface RunInfo {
+  root: string;             // workspace folder Claude ran in
+  sessionId: string;        // from .claude/activity.json
+  startedAt: number;
+  mode: ClaudeMode;
+  prompt?: string;          // from .claude/activity.json, when Claude reports it
+}
+
+export interface SessionRecord extends RunInfo {
+  id: string;               // unique per run: `${sessionId}-${startedAt}`
+  endedAt: number;
+  files: SessionFileRecord[];
+  feedbackSentAt?: number;  // when the review's comments were sent back to Claude
+  followUpOf?: string;      // id of the session whose feedback this run answers
+}
+
+/**
+ * Keeps a record of every Claude run so it survives the next
+ * computeDiffs() call. Each run is stored as one JSON file under the
+ * extension's storage folder:
+ *
+ *   <storage>/sessions/<id>.json
+ *
+ * Statuses and review comments are kept in sync with DiffManager until the
+ * next run in the folder starts, so the record ends up with each file's
+ * final review outcome — and the next run, which may touch the same files,
+ * cannot overwrite it. A run that starts after the previous run's feedback was
+ * sent is recorded as its follow-up.
+ */
+export class SessionHistory {
+  static readonly scheme = 'claude-history';
+
+  private current = new Map<string, SessionRecord>(); // workspace folder → its latest run
+  private running = new Set<string>();                // folders whose new run is not recorded yet
+  private readonly sessionsDir: string;
+
+  private _onDidRecord = new vscode.EventEmitter<SessionRecord>();
+  readonly onDidRecord = this._onDidRecord.event;
+
+  constructor(
+    context: vscode.ExtensionContext,
+    private diffManager: DiffManager,
+  ) {
+    const storage = context.storageUri ?? context.globalStorageUri;
+    this.sessionsDir = path.join(storage.fsPath, 'sessions');
+
+    context.subscriptions.push(
+      diffManager.onDidChangeDiffs(() => this.syncReview()),
+      // claude-history:/<relativePath>?<id>&<index>&<before|after>
+      vscode.workspace.registerTextDocumentContentProvider(SessionHistory.scheme, {
+        provideTextDocumentContent: (uri) => {
+          const [id, index, side] = uri.query.split('&');
+          const file = this.load(id)?.files[Number(index)];
+          if (!file) return '';
+          const content = side === 'before' ? file.before : file.after;
+          if (file.encoding !== 'base64') return content;
+          const absent = side === 'before' ? file.isNew : file.isDeleted;
+          return absent ? '' : `Binary file (${Buffer.from(content, 'base64').length} bytes)`;
+        },
+      }),
+    );
+  }
+
+  /**
+   * The most recently recorded run in `root`, if any in this window. Undefined
+   * from the start of a run until it is recorded — the diffs in the folder then
+   * belong to a run that has no record yet.
+   */
+  currentSession(root: string): SessionRecord | undefined {
+    return this.running.has(root) ? undefined : this.current.get(root);
+  }
+
+  /** The session whose feedback the current run in `root` answers, if it is a follow-up */
+  followUpTo(root: string): SessionRecord | undefined {
+    const id = this.current.get(root)?.followUpOf;
+    return id ? this.load(id) : undefined;
+  }
+
+  /** Notes that the current review in `root` was sent back to Claude */
+  markFeedbackSent(root: string) {
+    const session = this.current.get(root);
+    if (!session) return;
+    this.syncReview();
+    session.feedbackSentAt = Date.now();
+    this.save(session);
+  }
+
+  /** Called when Claude starts in `root` — the folder's last session keeps the review it has now */
+  beginRun(root: string) {
+    this.syncReview();
+    this.running.add(root);
+  }
+
+  /** Called when Claude finishes — stores the run with the diffs it produced */
+  record(run: RunInfo, diffs: FileDiff[]) {
+    this.running.delete(run.root);
+    if (diffs.length === 0) return;
+
+    const previous = this.current.get(run.root);
+    const session: SessionRecord = {
+      ...run,
+      id: `${run.sessionId}-${run.startedAt}`.replace(/[^\w.-]/g, '_'),
+      endedAt: Date.now(),
+      files: diffs.map(d => ({
+        filePath: d.filePath,
+        relativePath: d.relativePath,
+        ...(d.binary
+          ? {
+              before: d.binary.before?.data.toString('base64') ?? '',
+              after: d.binary.after?.data.toString('base64') ?? '',
+              encoding: 'base64' as const,
+            }
+          : { before: d.before, after: d.after }),
+        status: d.status,
+        isNew: d.isNew,
+        isDeleted: d.isDeleted,
+        unknownBefore: d.unknownBase,
+        oldPath: d.oldPath,
+        comments: commentsOf(d),
+      })),
+      followUpOf: previous?.feedbackSentAt && previous.feedbackSentAt <= run.startedAt ? previous.id : undefined,
+    };
+    this.current.set(run.root, session);
+    this.save(session);
+    this.prune();
+    this._onDidRecord.fire(session);
+  }
+
+  /** All stored sessions, newest first (file contents included) */
+  list(): SessionRecord[] {
+    if (!fs.existsSync(this.sessionsDir)) return [];
+    return fs.readdirSync(this.sessionsDir)
+      .filter(name => name.endsWith('.json'))
+      .map(name => this.load(path.basename(name, '.json')))
+      .filter((s): s is SessionRecord => !!s)
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  /** Entry point for the "Show Session History" command */
+  async browse() {
+    const sessions = this.list();
+    if (sessions.length === 0) {
+      vscode.window.showInformationMessage('Claude Diff: No sessions recorded yet');
+      return;
+    }
+
+    const pickedSession = await vscode.window.showQuickPick(
+      sessions.map(s => ({
+        label: `$(history) ${new Date(s.startedAt).toLocaleString()}`,
+        description: `${s.mode} · ${s.files.length} file${s.files.length === 1 ? '' : 's'}${s.feedbackSentAt ? ' · feedback sent' : ''}`,
+        detail: summarizeStatuses(s),
+        session: s,
+      })),
+      { title: 'Claude Session History', placeHolder: 'Pick a session to browse' },
+    );
+    if (!pickedSession) return;
+    const session = pickedSession.session;
+
+    const pickedFile = await vscode.window.showQuickPick(
+      session.files.map((f, index) => ({
+        label: f.relativePath,
+        description: f.oldPath ? `moved · ${f.status}` : f.isNew ? `new · ${f.status}` : f.isDeleted ? `deleted · ${f.status}` : f.status,
+        detail: f.comments?.map(c => `💬 ${c.text}`).join('  '),
+        index,
+      })),
+      { title: `Session ${session.sessionId}`, placeHolder: 'Pick a file' },
+    );
+    if (!pickedFile) return;
+
+    const action = await vscode.window.showQuickPick(
+      [
+        { label: '$(diff) Open Diff', action: 'diff' as const },
+        { label: '$(discard) Restore Content Before Session', action: 'before' as const },
+        { label: '$(check) Restore Content After Session', action: 'after' as const },
+      ],
+      { title: pickedFile.label },
+    );
+    if (!action) return;
+
+    if (action.action === 'diff') {
+      await this.openDiff(session, pickedFile.index);
+    } else {
+      await this.restore(session, pickedFile.index, action.action);
+    }
+  }
+
+  async openDiff(session: SessionRecord, index: number) {
+    const file = session.files[index];
+    const uri = (side: string) => vscode.Uri.from({
+      scheme: SessionHistory.scheme,
+      path: `/${file.relativePath}`,
+      query: `${session.id}&${index}&${side}`,
+    });
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      uri('before'),
+      uri('after'),
+      `Claude (${new Date(session.startedAt).toLocaleString()}): ${file.relativePath}`,
+    );
+  }
+
+  async restore(session: SessionRecord, index: number, side: 'before' | 'after') {
+    const file = session.files[index];
+    if (side === 'before' && file.unknownBefore) {
+      vscode.window.showWarningMessage(`Claude Diff: The content of ${file.relativePath} before this session was never captured — restore it from git instead`);
+      return;
+    }
+    const confirm = await vscode.window.showWarningMessage(
+      `Overwrite ${file.relativePath} with its content ${side} this session?`,
+      { modal: true },
+      'Restore',
+    );
+    if (confirm !== 'Restore') return;
+
+    // The file did not exist on that side of the session
+    const absent = side === 'before' ? file.isNew : file.isDeleted;
+    // A moved file goes back to the path it had on that side
+    const target = side === 'before' && file.oldPath ? file.oldPath : file.filePath;
+    const other = target === file.filePath ? file.oldPath : file.filePath;
+    if (absent) {
+      if (fs.existsSync(target)) fs.unlinkSync(target);
+    } else {
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      const content = side === 'before' ? file.before : file.after;
+      fs.writeFileSync(target, Buffer.from(content, file.encoding ?? 'utf8'));
+    }
+    if (other && fs.existsSync(other)) fs.unlinkSync(other);
+    vscode.window.showInformationMessage(`Restored ${file.relativePath}`);
+  }
+
+  /** Mirrors review outcomes and comments from DiffManager into each folder's current session */
+  private syncReview() {
+    const diffs = new Map(this.diffManager.getAllDiffs().map(d => [d.filePath, d]));
+    for (const session of this.current.values()) {
+      // The diffs there belong to the run in progress, not to this session
+      if (this.running.has(session.root)) continue;
+      let changed = false;
+      for (const file of session.files) {
+        const diff = diffs.get(file.filePath);
+        if (!diff) continue;
+        if (diff.status !== file.status) {
+          file.status = diff.status;
+          changed = true;
+        }
+        const comments = commentsOf(diff);
+        if (JSON.stringify(comments) !== JSON.stringify(file.comments)) {
+          file.comments = comments;
+          changed = true;
+        }
+      }
+      if (changed) this.save(session);
+    }
+  }
+
+  private save(session: SessionRecord) {
+    try {
+      fs.mkdirSync(this.sessionsDir, { recursive: true });
+      fs.writeFileSync(path.join(this.sessionsDir, `${session.id}.json`), JSON.stringify(session));
+    } catch (e) {
+      console.warn('[ClaudeDiff] Could not save session:', e);
+    }
+  }
+
+  private load(id: string): SessionRecord | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(this.sessionsDir, `${id}.json`), 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /** Drops the oldest sessions beyond claudediff.historyLimit */
+  private prune() {
+    const limit = vscode.workspace.getConfiguration('claudediff').get<number>('historyLimit', 50);
+    for (const session of this.list().slice(limit)) {
+      fs.rmSync(path.join(this.sessionsDir, `${session.id}.json`), { force: true });
+    }
+  }
+}
+
+function commentsOf(diff: FileDiff): ReviewComment[] | undefined {
+  const comments: ReviewComment[] = [
+    ...(diff.comment ? [{ text: diff.comment }] : []),
+    ...diff.hunks.filter(h => h.comment).map(h => ({ hunk: h.header, text: h.comment! })),
+  ];
+  return comments.length > 0 ? comments : undefined;
+}
+
+function summarizeStatuses(session: SessionRecord): string {
+  const count = (status: DiffStatus) => session.files.filter(f => f.status === status).length;
+  return [
+    `${count('accepted')} accepted`,
+    `${count('rejected')} rejected`,
+    `${count('pending')} pending`,
+  ].join(' · ');
+}
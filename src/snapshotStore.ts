@@ -0,0 +1,223 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { IgnoreRules } from './ignoreRules';
+import { originalAbsentPath, originalCopyPath, originalsDir } from './hookProtocol';
+
+interface Entry {
+  root: string;
+  mtimeMs: number;
+  size: number;
+  hash?: string;            // set once the content is in the store
+  unknown?: boolean;        // already written after the run started when the walk reached it
+}
+
+/** A walk still in progress */
+interface Walk {
+  listed: Set<string>;      // folders whose files all have an entry
+  queued: Set<string>;      // folders found but not listed yet
+  missed: Set<string>;      // files changed before the walk could have seen them
+}
+
+/**
+ * Pre-run content of workspace files, kept on disk instead of in memory.
+ *
+ * begin() walks a folder asynchronously and records only each file's size
+ * and mtime. Content is then copied in the background, one file at a time,
+ * to `<storage>/snapshots/<sha256>` — identical files are stored once. A
+ * file whose size and mtime still match has not changed, so diffing never
+ * needs to read it.
+ *
+ * If Claude edits a file before the background copy reaches it, the
+ * original comes from the copy the PreToolUse hook makes before the first
+ * edit (see originalCopyPath). Without that copy (a shell command, or no
+ * hook) the original is unknown — which is not the same as "did not exist".
+ * A file only counts as new once the walk has listed its folder without it,
+ * or if the hook left a marker saying it was absent (see originalAbsentPath).
+ * release() drops a folder's snapshots once its review is resolved.
+ */
+export class SnapshotStore {
+  private entries = new Map<string, Entry>(); // path → size/mtime when the run started
+  private runs = new Map<string, number>();   // workspace folder → run counter; stops stale background copies
+  private walks = new Map<string, Walk>();    // workspace folder → its walk, while it runs
+  private readonly dir: string;
+
+  constructor(storageDir: string) {
+    this.dir = path.join(storageDir, 'snapshots');
+    // Entries live in memory, so anything left by a previous window is garbage
+    fs.rmSync(this.dir, { recursive: true, force: true });
+  }
+
+  /** Snapshots every file in `root` not skipped by `rules`. Resolves once all content is stored. */
+  async begin(root: string, rules: IgnoreRules): Promise<void> {
+    this.release(root);
+    const run = this.runs.get(root)!;
+    const startedAt = Date.now();
+    fs.mkdirSync(originalsDir(root), { recursive: true });
+
+    const walk: Walk = { listed: new Set(), queued: new Set(), missed: new Set() };
+    this.walks.set(root, walk);
+    const files: string[] = [];
+    try {
+      await this.walk(root, root, rules, startedAt, walk, files);
+    } finally {
+      if (this.runs.get(root) === run) {
+        // Changed before the walk got to them — whether they existed is unknown
+        for (const fp of walk.missed) {
+          if (!this.entries.has(fp)) this.entries.set(fp, { root, mtimeMs: 0, size: 0, unknown: true });
+        }
+        this.walks.delete(root);
+      }
+    }
+    for (const fp of files) {
+      if (this.runs.get(root) !== run) return; // released, or a newer run took over
+      await this.capture(fp);
+    }
+    console.log(`[ClaudeDiff] Snapshot of ${root} stored (${files.length} files)`);
+  }
+
+  /**
+   * Content of `fp` when the run started: undefined if it did not exist,
+   * null if it changed before it could be captured.
+   */
+  read(fp: string): Buffer | undefined | null {
+    const root = this.entries.get(fp)?.root ?? this.rootOf(fp);
+    if (root !== undefined) {
+      const copy = originalCopyPath(root, fp);
+      if (fs.existsSync(copy)) return fs.readFileSync(copy);
+      if (fs.existsSync(originalAbsentPath(root, fp))) return undefined;
+    }
+
+    const entry = this.entries.get(fp);
+    if (!entry) return this.knownAbsent(fp) ? undefined : null;
+    if (entry.unknown) return null;
+    if (entry.hash) {
+      try {
+        return fs.readFileSync(path.join(this.dir, entry.hash));
+      } catch {
+        // Collected by a concurrent release() — fall back to the disk check
+      }
+    }
+    return this.unchanged(fp) ? fs.readFileSync(fp) : null;
+  }
+
+  /** True if `fp` still has the size and mtime it had when the run started */
+  unchanged(fp: string): boolean {
+    const entry = this.entries.get(fp);
+    if (!entry) return this.knownAbsent(fp) && !fs.existsSync(fp);
+    if (entry.unknown) return false;
+    try {
+      return sameStat(entry, fs.statSync(fp));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Called as soon as a file is seen changing. If the walk has not listed its
+   * folder yet, the change may have come first and the file is unknown.
+   */
+  noteChange(fp: string) {
+    const root = this.rootOf(fp);
+    const walk = root !== undefined ? this.walks.get(root) : undefined;
+    if (walk && !this.entries.has(fp) && !this.knownAbsent(fp)) walk.missed.add(fp);
+  }
+
+  /** Files snapshotted in `root` */
+  paths(root: string): string[] {
+    return [...this.entries].filter(([, e]) => e.root === root).map(([fp]) => fp);
+  }
+
+  /** Drops `root`'s snapshots and deletes content no other folder still uses */
+  release(root: string) {
+    this.runs.set(root, (this.runs.get(root) ?? 0) + 1);
+    this.walks.delete(root);
+    for (const [fp, entry] of this.entries) {
+      if (entry.root === root) this.entries.delete(fp);
+    }
+    fs.rmSync(originalsDir(root), { recursive: true, force: true });
+
+    if (!fs.existsSync(this.dir)) return;
+    const used = new Set([...this.entries.values()].map(e => e.hash));
+    for (const name of fs.readdirSync(this.dir)) {
+      if (!used.has(name)) fs.rmSync(path.join(this.dir, name), { force: true });
+    }
+  }
+
+  clear() {
+    for (const root of new Set([...this.entries.values()].map(e => e.root))) this.release(root);
+  }
+
+  /**
+   * A file with no entry did not exist when the run started only if the walk
+   * has already listed the folder it would be in. Everything else is unknown
+   * until the walk is done.
+   */
+  private knownAbsent(fp: string): boolean {
+    const root = this.rootOf(fp);
+    const walk = root !== undefined ? this.walks.get(root) : undefined;
+    if (!walk) return true;
+    if (walk.missed.has(fp)) return false;
+    // The closest folder the walk knows about decides: listed without it, or still to come
+    for (let dir = path.dirname(fp); ; dir = path.dirname(dir)) {
+      if (walk.listed.has(dir)) return true;
+      if (walk.queued.has(dir) || dir === root || path.dirname(dir) === dir) return false;
+    }
+  }
+
+  private async walk(root: string, dir: string, rules: IgnoreRules, startedAt: number, walk: Walk, files: string[]) {
+    // Removed before the walk got here — it stays queued, so its files stay unknown
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => undefined);
+    if (!entries) return;
+    const subdirs: string[] = [];
+    for (const entry of entries) {
+      const full = path.join(dir, entry.name);
+      if (rules.ignores(full, entry.isDirectory())) continue;
+      if (entry.isDirectory()) {
+        subdirs.push(full);
+        walk.queued.add(full);
+      } else if (entry.isFile()) {
+        const stat = await fs.promises.stat(full).catch(() => undefined);
+        if (!stat) {
+          walk.missed.add(full);
+          continue;
+        }
+        // Written after the run started — whatever is there now is not the original
+        const unknown = stat.mtimeMs >= startedAt;
+        this.entries.set(full, { root, mtimeMs: stat.mtimeMs, size: stat.size, unknown });
+        if (!unknown) files.push(full);
+      }
+    }
+    walk.queued.delete(dir);
+    walk.listed.add(dir);
+    for (const sub of subdirs) await this.walk(root, sub, rules, startedAt, walk, files);
+  }
+
+  private async capture(fp: string) {
+    const entry = this.entries.get(fp);
+    if (!entry || entry.hash) return;
+    try {
+      const data = await fs.promises.readFile(fp);
+      // Changed since the walk — what we read is not the original
+      if (!sameStat(entry, await fs.promises.stat(fp))) return;
+
+      const hash = createHash('sha256').update(data).digest('hex');
+      const blob = path.join(this.dir, hash);
+      if (!fs.existsSync(blob)) {
+        await fs.promises.mkdir(this.dir, { recursive: true });
+        await fs.promises.writeFile(blob, data);
+      }
+      entry.hash = hash;
+    } catch {
+      // Deleted meanwhile — read() reports it as changed
+    }
+  }
+
+  private rootOf(fp: string): string | undefined {
+    return [...this.runs.keys()].find(root => !path.relative(root, fp).startsWith('..'));
+  }
+}
+
+function sameStat(entry: Entry, stat: fs.Stats): boolean {
+  return stat.size === entry.size && stat.mtimeMs === entry.mtimeMs;
+}